@@ -0,0 +1,30 @@
+const WINDOWS_874_EXTRAS: Record<number, number> = {
+	0x20ac: 0x80,
+	0x2026: 0x85,
+	0x2018: 0x91,
+	0x2019: 0x92,
+	0x201c: 0x93,
+	0x201d: 0x94,
+	0x2022: 0x95,
+	0x2013: 0x96,
+	0x2014: 0x97,
+	0x00a0: 0xa0,
+};
+
+export function encodeWindows874(text: string): Buffer {
+	const bytes: number[] = [];
+
+	for (const char of text) {
+		const codePoint = char.codePointAt(0) ?? 0x3f;
+
+		if (codePoint < 0x80) {
+			bytes.push(codePoint);
+		} else if (codePoint >= 0x0e01 && codePoint <= 0x0e5b) {
+			bytes.push(codePoint - 0x0e01 + 0xa1);
+		} else {
+			bytes.push(WINDOWS_874_EXTRAS[codePoint] ?? 0x3f);
+		}
+	}
+
+	return Buffer.from(bytes);
+}
@@ -0,0 +1,211 @@
+import { encode } from "fast-png";
+import QRCode from "qrcode";
+import type { MockBusSchedule, MockReservation } from "../types.js";
+
+const THAI_SHORT_DAYS = ["อา", "จ", "อ", "พ", "พฤ", "ศ", "ส"];
+const THAI_FULL_DAYS = ["วันอาทิตย์", "วันจันทร์", "วันอังคาร", "วันพุธ", "วันพฤหัสบดี", "วันศุกร์", "วันเสาร์"];
+const THAI_SHORT_MONTHS = ["ม.ค.", "ก.พ.", "มี.ค.", "เม.ย.", "พ.ค.", "มิ.ย.", "ก.ค.", "ส.ค.", "ก.ย.", "ต.ค.", "พ.ย.", "ธ.ค."];
+const THAI_FULL_MONTHS = ["มกราคม", "กุมภาพันธ์", "มีนาคม", "เมษายน", "พฤษภาคม", "มิถุนายน", "กรกฎาคม", "สิงหาคม", "กันยายน", "ตุลาคม", "พฤศจิกายน", "ธันวาคม"];
+
+/**
+ * Grayscale PNG of a real QR code holding `data`, like the `/qrcode/generate` endpoint of the bus site
+ */
+export function renderQRCodePng(data: string, scale: number = 4, margin: number = 4): Buffer {
+	const { modules } = QRCode.create(data || " ", { errorCorrectionLevel: "M" });
+	const size = (modules.size + margin * 2) * scale;
+	const pixels = new Uint8Array(size * size).fill(255);
+
+	for (let y = 0; y < size; y++) {
+		for (let x = 0; x < size; x++) {
+			const row = Math.floor(y / scale) - margin;
+			const col = Math.floor(x / scale) - margin;
+
+			if (row >= 0 && col >= 0 && row < modules.size && col < modules.size && modules.get(row, col)) {
+				pixels[y * size + x] = 0;
+			}
+		}
+	}
+
+	return Buffer.from(encode({ width: size, height: size, data: pixels, channels: 1, depth: 8 }));
+}
+
+export function destinationName(destinationType: 1 | 2): "แม่ริม" | "เวียงบัว" {
+	return destinationType === 1 ? "แม่ริม" : "เวียงบัว";
+}
+
+function parseIsoDate(date: string): Date {
+	const [year, month, day] = date.split("-").map((part) => parseInt(part));
+	return new Date(year ?? 1970, (month ?? 1) - 1, day ?? 1);
+}
+
+function layout(title: string, content: string): string {
+	return `<!DOCTYPE html>
+<html lang="th">
+<head>
+<meta charset="utf-8">
+<title>${title} | ระบบจองการใช้บริการรถรับ-ส่ง</title>
+</head>
+<body>
+${content}
+</body>
+</html>`;
+}
+
+export function renderLoginPage(): string {
+	return layout(
+		"เข้าสู่ระบบ",
+		`<form id="frmLogin">
+<input type="text" id="username" name="username">
+<input type="password" id="password" name="password">
+<select id="usertype"><option value="1">นักศึกษา</option><option value="2">บุคลากร</option></select>
+<button type="button" onclick="$.post('/user/userloginchk', { data: data })">เข้าสู่ระบบ</button>
+</form>`,
+	);
+}
+
+function renderReservationRow(reservation: MockReservation, index: number): string {
+	const date = parseIsoDate(reservation.date);
+	const shortDate = `${date.getDate()} ${THAI_SHORT_MONTHS[date.getMonth()]} ${String(date.getFullYear() + 543).slice(-2)}`;
+	const departure = `${THAI_SHORT_DAYS[date.getDay()]}, ${shortDate}, ${reservation.time.replace(":", ".")}`;
+	const confirmData = `${reservation.id}:||:${reservation.date}`;
+
+	let ticketCell = "รอถึงเวลา";
+	if (reservation.ticketId !== null) {
+		ticketCell = `<a href="javascript:void(0)" onclick="openNewWindow('/users/schedule/showticket/${reservation.ticketId}')"><i class="fa fa-qrcode"></i> รอเดินทาง</a>`;
+	}
+
+	let confirmationCell: string;
+	if (reservation.confirmed) {
+		confirmationCell = `<span class="badge badge-success"><i class="fa fa-check"></i> ยืนยันแล้ว</span>`;
+		if (reservation.traveled === null) {
+			confirmationCell += ` <a href="javascript:void(0)" class="badge badge-warning" onclick="unconfirmReserv('${confirmData}')">ยกเลิกการยืนยัน</a>`;
+		}
+	} else if (reservation.overtime) {
+		confirmationCell = `<span class="badge badge-secondary">เกินเวลายืนยัน</span>`;
+	} else {
+		confirmationCell = `<span class="badge badge-info">รอยืนยัน</span>
+<a href="javascript:void(0)" class="badge badge-success" onclick="confirmReserv('${confirmData}')">ยืนยัน</a>
+<a href="javascript:void(0)" class="badge badge-danger" onclick="return confirm('/users/schedule/delt/${reservation.id}')">ลบ</a>`;
+	}
+
+	let travelCell = "";
+	if (reservation.traveled === true) {
+		travelCell = `<span class="badge badge-success">เดินทางแล้ว</span>`;
+	} else if (reservation.traveled === false) {
+		travelCell = `<span class="badge badge-danger">ไม่ได้เดินทาง</span>`;
+	}
+
+	return `<tr>
+<td>${index}</td>
+<td>${ticketCell}</td>
+<td><span>${destinationName(reservation.destinationType)}</span></td>
+<td>${departure}</td>
+<td>${confirmationCell}</td>
+<td>${travelCell}</td>
+</tr>`;
+}
+
+export function renderSchedulePage(name: string, reservations: MockReservation[], page: number, pageSize: number): string {
+	const sorted = [...reservations].sort((a, b) => b.date.localeCompare(a.date));
+	const totalPages = Math.max(1, Math.ceil(sorted.length / pageSize));
+	const startIndex = (page - 1) * pageSize;
+	const rows = sorted
+		.slice(startIndex, startIndex + pageSize)
+		.map((reservation, index) => renderReservationRow(reservation, startIndex + index + 1))
+		.join("\n");
+
+	const pageItems = Array.from({ length: totalPages }, (_, index) => index + 1)
+		.map((pageNumber) =>
+			pageNumber === page ? `<li class="activex">${pageNumber}</li>` : `<li class="numlink"><a href="/users/schedule/showall/${pageNumber}/">${pageNumber}</a></li>`,
+		)
+		.join("");
+
+	return layout(
+		"รายการจอง",
+		`<div id="alert-Top"><h4>${name}</h4></div>
+<h3>รายการจองของฉัน</h3>
+<table class="table">
+<thead><tr><th>#</th><th>ตั๋ว</th><th>ปลายทาง</th><th>วันเวลาเดินทาง</th><th>ยืนยัน</th><th>การเดินทาง</th></tr></thead>
+<tbody>
+${rows}
+</tbody>
+</table>
+<ul class="pagination"><li class="title">ทั้งหมด <span>${sorted.length}</span> รายการ</li>${pageItems}</ul>`,
+	);
+}
+
+export function renderAvailablePage(month: string, months: string[], schedules: MockBusSchedule[]): string {
+	const options = months.map((value) => `<option value="${value}"${value === month ? " selected" : ""}>${value}</option>`).join("");
+	const events = schedules
+		.filter((schedule) => schedule.date.startsWith(month))
+		.map(
+			(schedule) =>
+				`{title: '( ไป${destinationName(schedule.destinationType)} )', start: '${schedule.date}T${schedule.time}:00', schDate: '${schedule.date}', SchId: '${schedule.id}', scd_type: '${schedule.destinationType}', reservStatus: '${schedule.canReserve ? "1" : "0"}', signinStatus: '1', classNames: ['${schedule.canReserve ? "bg-success" : "bg-secondary"}']}`,
+		)
+		.join(", ");
+
+	return layout(
+		"ตารางเดินรถ",
+		`<select id="sMonth" name="month">${options}</select>
+<div id="calendar"></div>
+<script>
+document.addEventListener('DOMContentLoaded', function () {
+	var calendar = new FullCalendar.Calendar(document.getElementById('calendar'), {
+		initialDate: '${month}-01',
+		events: [${events}]
+	});
+	calendar.render();
+});
+</script>`,
+	);
+}
+
+export function renderTicketPage(reservation: MockReservation, username: string, name: string): string {
+	const date = parseIsoDate(reservation.date);
+	const fullDate = `${date.getDate()} ${THAI_FULL_MONTHS[date.getMonth()]} ${date.getFullYear() + 543}`;
+	const qrData = encodeURIComponent(`${reservation.ticketId}:||:${username}:||:${reservation.date}`);
+
+	return layout(
+		"ตั๋วรถรับ-ส่ง",
+		`<div class="container text-center">
+<h1>ปลายทาง : <span class="text-info">${destinationName(reservation.destinationType)}</span></h1>
+<h1>รอบ : <span class="text-info">${THAI_FULL_DAYS[date.getDay()]}, ${fullDate}, ${reservation.time.replace(":", ".")}</span></h1>
+<div class="row">
+<div class="col-sm-4"><img src="/qrcode/generate?data=${qrData}" alt="qrcode"></div>
+<div class="col-sm-8 text-left"><span>รหัส นศ. : ${username}<br>${name}<br></span></div>
+</div>
+</div>`,
+	);
+}
+
+export function renderProfilePage(username: string, name: string): string {
+	return layout(
+		"ข้อมูลส่วนตัว",
+		`<h1 class="display-5">${name}</h1>
+<div class="row g-4 text-dark mb-5">
+<div class="col-sm-12">รหัสนักศึกษา ${username}</div>
+</div>`,
+	);
+}
+
+export function renderBusStopsPage(): string {
+	return layout(
+		"จุดจอดรถ",
+		`<h4>เวียงบัว - แม่ริม</h4>
+<table class="table">
+<thead><tr><th>ลำดับ</th><th>จุดจอด</th><th>เวลา</th></tr></thead>
+<tbody>
+<tr><td>1</td><td>อาคารเฉลิมพระเกียรติ (เวียงบัว)</td><td>07.30</td></tr>
+<tr><td>2</td><td>วิทยาเขตแม่ริม</td><td>08.30</td></tr>
+</tbody>
+</table>
+<h4>แม่ริม - เวียงบัว</h4>
+<table class="table">
+<thead><tr><th>ลำดับ</th><th>จุดจอด</th><th>เวลา</th></tr></thead>
+<tbody>
+<tr><td>1</td><td>วิทยาเขตแม่ริม</td><td>16.30</td></tr>
+<tr><td>2</td><td>อาคารเฉลิมพระเกียรติ (เวียงบัว)</td><td>17.30</td></tr>
+</tbody>
+</table>`,
+	);
+}
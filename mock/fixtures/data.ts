@@ -0,0 +1,261 @@
+import type { MockBusSchedule, MockReservation, MockState } from "../types.js";
+
+function toIsoDate(date: Date): string {
+	return `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, "0")}-${String(date.getDate()).padStart(2, "0")}`;
+}
+
+function addDays(date: Date, days: number): Date {
+	const result = new Date(date);
+	result.setDate(result.getDate() + days);
+	return result;
+}
+
+function createBusSchedules(now: Date): MockBusSchedule[] {
+	const schedules: MockBusSchedule[] = [];
+	const start = new Date(now.getFullYear(), now.getMonth(), 1);
+	const end = new Date(now.getFullYear(), now.getMonth() + 2, 0);
+	let id = 1450;
+
+	for (let day = start; day <= end; day = addDays(day, 1)) {
+		const weekday = day.getDay();
+		if (weekday === 0 || weekday === 6) continue;
+
+		const date = toIsoDate(day);
+		const canReserve = day >= new Date(now.getFullYear(), now.getMonth(), now.getDate());
+
+		schedules.push({ id: id++, destinationType: 1, date, time: "07:30", canReserve });
+		schedules.push({ id: id++, destinationType: 2, date, time: "16:30", canReserve });
+	}
+
+	return schedules;
+}
+
+function createReservations(now: Date): MockReservation[] {
+	return [
+		{ id: 9001, scheduleId: 1, destinationType: 1, date: toIsoDate(addDays(now, -14)), time: "07:30", confirmed: true, overtime: false, traveled: true, ticketId: 5001 },
+		{ id: 9002, scheduleId: 2, destinationType: 2, date: toIsoDate(addDays(now, -13)), time: "16:30", confirmed: true, overtime: false, traveled: false, ticketId: 5002 },
+		{ id: 9003, scheduleId: 3, destinationType: 1, date: toIsoDate(addDays(now, -7)), time: "07:30", confirmed: false, overtime: true, traveled: null, ticketId: null },
+		{ id: 9004, scheduleId: 4, destinationType: 1, date: toIsoDate(addDays(now, 1)), time: "07:30", confirmed: true, overtime: false, traveled: null, ticketId: 5004 },
+		{ id: 9005, scheduleId: 5, destinationType: 2, date: toIsoDate(addDays(now, 2)), time: "16:30", confirmed: false, overtime: false, traveled: null, ticketId: null },
+	];
+}
+
+export function createInitialState(now: Date = new Date()): MockState {
+	return {
+		reservations: createReservations(now),
+		busSchedules: createBusSchedules(now),
+		grades: [
+			{
+				academicYear: "2566",
+				semester: "1",
+				courses: [
+					{ courseCode: "COM 1101-65", courseName: "หลักการเขียนโปรแกรมคอมพิวเตอร์", section: "01", credits: 3, grade: "A" },
+					{ courseCode: "MAT 1101-65", courseName: "แคลคูลัส 1", section: "02", credits: 3, grade: "C+" },
+					{ courseCode: "GEN 1001-65", courseName: "ภาษาอังกฤษเพื่อการสื่อสาร", section: "11", credits: 3, grade: "B" },
+				],
+			},
+			{
+				academicYear: "2566",
+				semester: "2",
+				courses: [
+					{ courseCode: "COM 1201-65", courseName: "โครงสร้างข้อมูลและขั้นตอนวิธี", section: "01", credits: 3, grade: "B+" },
+					{ courseCode: "MAT 1201-65", courseName: "แคลคูลัส 2", section: "02", credits: 3, grade: "F" },
+					{ courseCode: "GEN 1002-65", courseName: "ทักษะชีวิต", section: "05", credits: 2, grade: "S" },
+				],
+			},
+			{
+				academicYear: "2567",
+				semester: "1",
+				courses: [
+					{ courseCode: "COM 2101-65", courseName: "การเขียนโปรแกรมเชิงวัตถุ", section: "01", credits: 3, grade: "A" },
+					{ courseCode: "MAT 1201-65", courseName: "แคลคูลัส 2", section: "01", credits: 3, grade: "C" },
+					{ courseCode: "COM 2102-65", courseName: "ระบบฐานข้อมูล", section: "01", credits: 3, grade: "W" },
+				],
+			},
+		],
+		timetables: [
+			{
+				academicYear: "2567",
+				semester: "1",
+				courses: [
+					{
+						courseCode: "COM 2101-65",
+						section: "01",
+						courseName: "การเขียนโปรแกรมเชิงวัตถุ",
+						credits: "3(2-2-5)",
+						instructor: "อ.สมชาย ใจดี",
+						schedule: "จ. 08:00-09:50 SCI9-306 (ท) พ. 13:00-14:50 SCI9-401 (ป)",
+					},
+					{
+						courseCode: "MAT 1201-65",
+						section: "01",
+						courseName: "แคลคูลัส 2",
+						credits: "3(3-0-6)",
+						instructor: "อ.สมหญิง รักเรียน",
+						schedule: "อ. 10:00-12:50 SCI2-201 (ท)",
+					},
+				],
+			},
+			{
+				academicYear: "2567",
+				semester: "2",
+				courses: [
+					{
+						courseCode: "COM 2201-65",
+						section: "01",
+						courseName: "การพัฒนาโปรแกรมประยุกต์บนเว็บ",
+						credits: "3(2-2-5)",
+						instructor: "อ.สมชาย ใจดี",
+						schedule: "จ. 13:00-14:50 SCI9-306 (ท) พฤ. 08:00-09:50 SCI9-402 (ป)",
+					},
+					{
+						courseCode: "COM 2102-65",
+						section: "02",
+						courseName: "ระบบฐานข้อมูล",
+						credits: "3(2-2-5)",
+						instructor: "อ.วิชัย มั่นคง",
+						schedule: "ศ. 09:00-11:50 SCI9-405 (ท)",
+					},
+				],
+			},
+		],
+		exams: [
+			{
+				academicYear: "2567",
+				semester: "1",
+				exams: [
+					{
+						courseCode: "COM 2101-65",
+						courseName: "การเขียนโปรแกรมเชิงวัตถุ",
+						section: "01",
+						examType: "กลางภาค",
+						date: "14 ส.ค. 2567",
+						time: "09:00-12:00",
+						room: "SCI9-306",
+						seat: "A12",
+					},
+					{
+						courseCode: "MAT 1201-65",
+						courseName: "แคลคูลัส 2",
+						section: "01",
+						examType: "กลางภาค",
+						date: "15 ส.ค. 2567",
+						time: "13:00-16:00",
+						room: "SCI2-201",
+						seat: "B07",
+					},
+					{
+						courseCode: "COM 2101-65",
+						courseName: "การเขียนโปรแกรมเชิงวัตถุ",
+						section: "01",
+						examType: "ปลายภาค",
+						date: "7 ต.ค. 2567",
+						time: "09:00-12:00",
+						room: "SCI9-401",
+						seat: "C03",
+					},
+				],
+			},
+			{
+				academicYear: "2567",
+				semester: "2",
+				exams: [
+					{
+						courseCode: "COM 2201-65",
+						courseName: "การพัฒนาโปรแกรมประยุกต์บนเว็บ",
+						section: "01",
+						examType: "กลางภาค",
+						date: "10 ม.ค. 2568",
+						time: "09:00-11:00",
+						room: "SCI9-306",
+						seat: "A05",
+					},
+					{
+						courseCode: "COM 2102-65",
+						courseName: "ระบบฐานข้อมูล",
+						section: "02",
+						examType: "ปลายภาค",
+						date: "17 มี.ค. 2568",
+						time: "13:00-16:00",
+						room: "SCI9-405",
+						seat: "D11",
+					},
+				],
+			},
+		],
+		activities: [
+			{
+				activityId: "ACT-6601",
+				activityName: "ปฐมนิเทศนักศึกษาใหม่",
+				status: "ผ่าน",
+				hours: 6,
+				date: "15/06/2566",
+				location: "หอประชุมมหาวิทยาลัย",
+				activityType: "กิจกรรมมหาวิทยาลัย",
+			},
+			{
+				activityId: "ACT-6602",
+				activityName: "ไหว้ครูคณะวิทยาศาสตร์",
+				status: "ผ่าน",
+				hours: 3,
+				date: "22/06/2566",
+				location: "อาคาร 9",
+				activityType: "กิจกรรมคณะ",
+			},
+			{
+				activityId: "ACT-6701",
+				activityName: "ค่ายพัฒนาทักษะการเขียนโปรแกรม",
+				status: "ไม่ผ่าน",
+				hours: 0,
+				date: "10/08/2567",
+				location: "ห้อง SCI9-401",
+				activityType: "กิจกรรมสาขาวิชา",
+			},
+			{
+				activityId: "ACT-6702",
+				activityName: "จิตอาสาพัฒนามหาวิทยาลัย",
+				status: "ลงทะเบียน",
+				hours: 4,
+				date: "20/12/2567",
+				location: "วิทยาเขตแม่ริม",
+				activityType: "กิจกรรมมหาวิทยาลัย",
+			},
+		],
+		studyPlan: [
+			{
+				categoryName: "หมวดวิชาศึกษาทั่วไป",
+				requiredCredits: 30,
+				courses: [
+					{ courseCode: "GEN 1001-65", courseName: "ภาษาอังกฤษเพื่อการสื่อสาร", credits: 3, yearSemester: "1/1", grade: "B", prerequisite: "-" },
+					{ courseCode: "GEN 1002-65", courseName: "ทักษะชีวิต", credits: 2, yearSemester: "1/2", grade: "S", prerequisite: "-" },
+				],
+			},
+			{
+				categoryName: "หมวดวิชาเฉพาะ",
+				requiredCredits: 90,
+				courses: [
+					{ courseCode: "COM 1101-65", courseName: "หลักการเขียนโปรแกรมคอมพิวเตอร์", credits: 3, yearSemester: "1/1", grade: "A", prerequisite: "-" },
+					{ courseCode: "MAT 1101-65", courseName: "แคลคูลัส 1", credits: 3, yearSemester: "1/1", grade: "C+", prerequisite: "-" },
+					{ courseCode: "COM 1201-65", courseName: "โครงสร้างข้อมูลและขั้นตอนวิธี", credits: 3, yearSemester: "1/2", grade: "B+", prerequisite: "COM 1101-65" },
+					{ courseCode: "MAT 1201-65", courseName: "แคลคูลัส 2", credits: 3, yearSemester: "1/2", grade: "C", prerequisite: "MAT 1101-65" },
+					{ courseCode: "COM 2101-65", courseName: "การเขียนโปรแกรมเชิงวัตถุ", credits: 3, yearSemester: "2/1", grade: "A", prerequisite: "COM 1101-65" },
+					{ courseCode: "COM 2102-65", courseName: "ระบบฐานข้อมูล", credits: 3, yearSemester: "2/1", grade: "-", prerequisite: "COM 1201-65" },
+					{
+						courseCode: "COM 2201-65",
+						courseName: "การพัฒนาโปรแกรมประยุกต์บนเว็บ",
+						credits: 3,
+						yearSemester: "2/2",
+						grade: "-",
+						prerequisite: "COM 2101-65, COM 2102-65",
+					},
+					{ courseCode: "COM 3101-65", courseName: "ปัญญาประดิษฐ์", credits: 3, yearSemester: "3/1", grade: "-", prerequisite: "COM 1201-65, MAT 1201-65" },
+				],
+			},
+			{
+				categoryName: "หมวดวิชาเลือกเสรี",
+				requiredCredits: 6,
+				courses: [{ courseCode: "ART 1001-65", courseName: "ศิลปะการถ่ายภาพ", credits: 3, yearSemester: "3/2", grade: "-", prerequisite: "-" }],
+			},
+		],
+	};
+}
@@ -0,0 +1,174 @@
+import type { MockActivity, MockExamTerm, MockGradeSemester, MockStudyPlanCategory, MockTimetableTerm } from "../types.js";
+
+export const BUILD_KEY = "482917";
+
+function layout(title: string, content: string, header?: { username: string; name: string }): string {
+	const usernameTable = header ? `<table class="username" width="100%"><tr><td>ผู้ใช้งาน</td><td>${header.username} : ${header.name}</td></tr></table>` : "";
+
+	return `<html>
+<head>
+<meta http-equiv="Content-Type" content="text/html; charset=windows-874">
+<title>${title}</title>
+</head>
+<body>
+${usernameTable}
+${content}
+</body>
+</html>`;
+}
+
+export function renderLoginPage(message?: string): string {
+	return layout(
+		"ระบบบริการการศึกษา",
+		`${message ? `<font color="red">${message}</font>` : ""}
+<form name="frmlogin" method="post" action="validate.asp">
+<input type="hidden" NAME=BUILDKEY value=${BUILD_KEY}>
+<input type="text" name="f_uid">
+<input type="password" name="f_pwd">
+<input type="submit" value="เข้าสู่ระบบ">
+</form>`,
+	);
+}
+
+export function renderLoginSuccessPage(): string {
+	return layout("ระบบบริการการศึกษา", `<script language="javascript">window.location = "main.asp";</script>`);
+}
+
+export function renderStudentPage(username: string, name: string): string {
+	const rows: Array<[string, string]> = [
+		["สถานภาพ", "กำลังศึกษา"],
+		["คณะ", "คณะวิทยาศาสตร์และเทคโนโลยี"],
+		["สาขาวิชา", "วิทยาการคอมพิวเตอร์"],
+		["อ. ที่ปรึกษา", "อ.สมชาย ใจดี"],
+	];
+
+	return layout(
+		"ประวัตินักศึกษา",
+		`<table>
+${rows.map(([header, value]) => `<tr><td class="headerdetail">${header}</td><td class="normaldetail">${value}</td></tr>`).join("\n")}
+</table>`,
+		{ username, name },
+	);
+}
+
+export function renderTimetablePage(username: string, name: string, terms: MockTimetableTerm[], term: MockTimetableTerm): string {
+	const years = [...new Set(terms.map((item) => item.academicYear))];
+	const yearOptions = years.map((year) => `<option value="${year}"${year === term.academicYear ? " selected" : ""}>${year}</option>`).join("");
+	const semesterOptions = ["1", "2", "3"].map((semester) => `<option value="${semester}"${semester === term.semester ? " selected" : ""}>${semester}</option>`).join("");
+	const termLinks = terms
+		.map((item) => `<a href="#" onclick="Setpostform('time_table.asp?acadyear=${item.academicYear}&semester=${item.semester}')">${item.semester}/${item.academicYear}</a>`)
+		.join(" ");
+	const cell = (value: string) => `<td><font class="normaldetail">${value}</font></td>`;
+	const rows = term.courses
+		.map((course) => `<tr>${[course.courseCode, course.section, course.courseName, course.credits, course.instructor, course.schedule].map(cell).join("")}</tr>`)
+		.join("\n");
+
+	return layout(
+		"ตารางเรียน",
+		`<form name="frmTimeTable" method="post" action="time_table.asp">
+ปีการศึกษา <select name="ACADYEAR">${yearOptions}</select>
+ภาค <select name="SEMESTER">${semesterOptions}</select>
+</form>
+<div>${termLinks}</div>
+<p>ตารางเรียน ภาคเรียนที่ ${term.semester}/${term.academicYear}</p>
+<table>
+<tr bgcolor="#F6F6FF"><td>รหัสวิชา</td><td>กลุ่ม</td><td>ชื่อวิชา</td><td>หน่วยกิต</td><td>ผู้สอน</td><td>วัน เวลา ห้อง</td></tr>
+${rows}
+</table>`,
+		{ username, name },
+	);
+}
+
+export function renderExamPage(username: string, name: string, terms: MockExamTerm[], term: MockExamTerm): string {
+	const years = [...new Set(terms.map((item) => item.academicYear))];
+	const yearOptions = years.map((year) => `<option value="${year}"${year === term.academicYear ? " selected" : ""}>${year}</option>`).join("");
+	const semesterOptions = ["1", "2", "3"].map((semester) => `<option value="${semester}"${semester === term.semester ? " selected" : ""}>${semester}</option>`).join("");
+	const termLinks = terms
+		.map((item) => `<a href="#" onclick="Setpostform('exam_list.asp?acadyear=${item.academicYear}&semester=${item.semester}')">${item.semester}/${item.academicYear}</a>`)
+		.join(" ");
+	const cell = (value: string) => `<td><font class="normaldetail">${value}</font></td>`;
+	const rows = term.exams
+		.map((exam) => `<tr>${[exam.courseCode, exam.courseName, exam.section, exam.examType, exam.date, exam.time, exam.room, exam.seat].map(cell).join("")}</tr>`)
+		.join("\n");
+
+	return layout(
+		"ตารางสอบ",
+		`<form name="frmExam" method="post" action="exam_list.asp">
+ปีการศึกษา <select name="ACADYEAR">${yearOptions}</select>
+ภาค <select name="SEMESTER">${semesterOptions}</select>
+</form>
+<div>${termLinks}</div>
+<p>ตารางสอบ ภาคเรียนที่ ${term.semester}/${term.academicYear}</p>
+<table>
+<tr bgcolor="#F6F6FF"><td>รหัสวิชา</td><td>ชื่อวิชา</td><td>กลุ่ม</td><td>สอบ</td><td>วันที่สอบ</td><td>เวลา</td><td>ห้องสอบ</td><td>เลขที่นั่งสอบ</td></tr>
+${rows}
+</table>`,
+		{ username, name },
+	);
+}
+
+export function renderGradePage(username: string, name: string, semesters: MockGradeSemester[], current: MockGradeSemester): string {
+	const links = semesters
+		.map((item) => `<a href="#" onclick="Setpostform('grade.asp?gradeacadyear=${item.academicYear}&gradesemester=${item.semester}')">${item.semester}/${item.academicYear}</a>`)
+		.join(" ");
+	const rows = current.courses
+		.map((course) => `<tr><td>${course.courseCode}</td><td>${course.courseName}</td><td>${course.section}</td><td>${course.credits}</td><td>${course.grade}</td></tr>`)
+		.join("\n");
+
+	return layout(
+		"ผลการศึกษา",
+		`<div>${links}</div>
+<p>ผลการศึกษา ปีการศึกษา ${current.academicYear} ภาคเรียนที่ ${current.semester}</p>
+<table>
+<tr><td>รหัสวิชา</td><td>ชื่อวิชา</td><td>กลุ่ม</td><td>หน่วยกิต</td><td>เกรด</td></tr>
+${rows}
+</table>`,
+		{ username, name },
+	);
+}
+
+export function renderActivityPage(username: string, name: string, activities: MockActivity[], requiredHours: number): string {
+	const rows = activities
+		.map(
+			(activity) =>
+				`<tr><td>${activity.activityId}</td><td>${activity.activityName}</td><td>${activity.status}</td><td>${activity.hours}</td><td>${activity.date}</td><td>${activity.location}</td><td>${activity.activityType}</td></tr>`,
+		)
+		.join("\n");
+
+	return layout(
+		"ตรวจสอบการเข้าร่วมกิจกรรม",
+		`<p>เกณฑ์การผ่านกิจกรรม ต้องการ ${requiredHours} ชั่วโมง</p>
+<table>
+<tr><td>รหัสกิจกรรม</td><td>ชื่อกิจกรรม</td><td>สถานะ</td><td>ชั่วโมง</td><td>วันที่</td><td>สถานที่</td><td>ประเภท</td></tr>
+${rows}
+</table>`,
+		{ username, name },
+	);
+}
+
+export function renderStudyPlanPage(username: string, name: string, categories: MockStudyPlanCategory[]): string {
+	const tables = categories
+		.map((category) => {
+			const rows = category.courses
+				.map(
+					(course) =>
+						`<tr><td>${course.courseCode}</td><td>${course.courseName}</td><td>${course.credits}</td><td>${course.yearSemester}</td><td>${course.grade}</td><td>${course.prerequisite}</td></tr>`,
+				)
+				.join("\n");
+
+			return `<table>
+<tr><td>รหัสวิชา</td><td>ชื่อวิชา</td><td>หน่วยกิต</td><td>ปี/ภาค</td><td>เกรด</td><td>วิชาบังคับก่อน</td></tr>
+<tr><td colspan="6">${category.categoryName} ${category.requiredCredits} หน่วยกิต</td></tr>
+${rows}
+</table>`;
+		})
+		.join("\n");
+
+	return layout(
+		"แผนการเรียน",
+		`<p>หลักสูตร: วิทยาศาสตรบัณฑิต สาขาวิทยาการคอมพิวเตอร์</p>
+<p>หลักสูตรปี: 2565</p>
+${tables}`,
+		{ username, name },
+	);
+}
@@ -0,0 +1,17 @@
+import { startMockServer } from "./server.js";
+
+async function start() {
+	const server = await startMockServer({
+		port: Number(process.env.PORT || 4000),
+		host: process.env.HOST || "localhost",
+	});
+
+	console.log(`🧪 CMRU mock server running at ${server.url}`);
+	console.log(`🔑 Login with 66143000 / password`);
+
+	process.on("SIGINT", () => {
+		void server.close().then(() => process.exit(0));
+	});
+}
+
+start().catch(console.error);
@@ -0,0 +1,357 @@
+import { createServer, type IncomingMessage, type Server, type ServerResponse } from "node:http";
+import { randomBytes } from "node:crypto";
+import type { AddressInfo } from "node:net";
+import type { MockReservation, MockServerConfig, MockServerHandle, MockState } from "./types.js";
+import { encodeWindows874 } from "./encoding.js";
+import { createInitialState } from "./fixtures/data.js";
+import * as busPages from "./fixtures/bus.js";
+import * as regPages from "./fixtures/reg.js";
+
+const BUS_COOKIE = "ci_session";
+const REG_COOKIE = "ASPSESSIONIDQCTRBDSA";
+const REG_REQUIRED_ACTIVITY_HOURS = 18;
+
+interface MockRequest {
+	method: string;
+	path: string;
+	query: URLSearchParams;
+	form: URLSearchParams;
+	cookies: Record<string, string>;
+}
+
+interface MockResponse {
+	status: number;
+	headers: Record<string, string | string[]>;
+	body: string | Buffer;
+}
+
+const DEFAULT_CONFIG: MockServerConfig = {
+	port: 0,
+	host: "127.0.0.1",
+	account: {
+		username: "66143000",
+		password: "password",
+		name: "นายทดสอบ ระบบ",
+	},
+	maxLoginAttempts: 5,
+	regExpiredBehavior: "redirect",
+	busPageSize: 10,
+};
+
+function parseCookieHeader(header: string | undefined): Record<string, string> {
+	const cookies: Record<string, string> = {};
+	if (!header) return cookies;
+
+	for (const pair of header.split(";")) {
+		const [name, ...value] = pair.trim().split("=");
+		if (name) {
+			cookies[name] = value.join("=");
+		}
+	}
+
+	return cookies;
+}
+
+function html(body: string, headers: Record<string, string | string[]> = {}): MockResponse {
+	return { status: 200, headers: { "Content-Type": "text/html; charset=utf-8", ...headers }, body };
+}
+
+function windows874(body: string, headers: Record<string, string | string[]> = {}): MockResponse {
+	return { status: 200, headers: { "Content-Type": "text/html; charset=windows-874", ...headers }, body: encodeWindows874(body) };
+}
+
+function text(body: string, headers: Record<string, string | string[]> = {}): MockResponse {
+	return { status: 200, headers: { "Content-Type": "text/plain; charset=utf-8", ...headers }, body };
+}
+
+function redirect(location: string, headers: Record<string, string | string[]> = {}): MockResponse {
+	return { status: 302, headers: { Location: location, ...headers }, body: "" };
+}
+
+function notFound(): MockResponse {
+	return { status: 404, headers: { "Content-Type": "text/plain; charset=utf-8" }, body: "Not Found" };
+}
+
+/**
+ * Offline stand-in for cmrubus.cmru.ac.th and reg.cmru.ac.th
+ *
+ * Serves both systems from one origin since their paths do not overlap,
+ * so a single axios instance can be pointed at it for either `Bus` or `Reg`.
+ */
+export class CmruMockServer {
+	private server: Server | null = null;
+	private config: MockServerConfig;
+	private state: MockState;
+	private busSessions = new Map<string, string | null>();
+	private regSessions = new Map<string, string | null>();
+	private failedRegLogins = 0;
+	private nextReservationId = 9100;
+
+	constructor(config: Partial<MockServerConfig> = {}) {
+		this.config = { ...DEFAULT_CONFIG, ...config, account: { ...DEFAULT_CONFIG.account, ...config.account } };
+		this.state = createInitialState();
+	}
+
+	async start(): Promise<MockServerHandle> {
+		const server = createServer((req, res) => {
+			void this.handle(req, res);
+		});
+		this.server = server;
+
+		await new Promise<void>((resolve, reject) => {
+			server.once("error", reject);
+			server.listen(this.config.port, this.config.host, () => resolve());
+		});
+
+		const address = server.address() as AddressInfo;
+
+		return {
+			url: `http://${this.config.host}:${address.port}`,
+			state: this.state,
+			expireSessions: this.expireSessions.bind(this),
+			close: this.close.bind(this),
+		};
+	}
+
+	expireSessions(): void {
+		this.busSessions.clear();
+		this.regSessions.clear();
+	}
+
+	async close(): Promise<void> {
+		const server = this.server;
+		if (!server) return;
+
+		this.server = null;
+		await new Promise<void>((resolve, reject) => {
+			server.close((error) => (error ? reject(error) : resolve()));
+		});
+	}
+
+	private async handle(req: IncomingMessage, res: ServerResponse): Promise<void> {
+		try {
+			const url = new URL(req.url || "/", "http://localhost");
+			const rawBody = await this.readBody(req);
+			const request: MockRequest = {
+				method: req.method || "GET",
+				path: url.pathname,
+				query: url.searchParams,
+				form: new URLSearchParams(rawBody),
+				cookies: parseCookieHeader(req.headers.cookie),
+			};
+
+			const response = request.path.toLowerCase().startsWith("/registrar/") ? this.handleReg(request) : this.handleBus(request);
+			res.writeHead(response.status, response.headers);
+			res.end(response.body);
+		} catch (error) {
+			console.error("❌ Mock server error:", error);
+			res.writeHead(500, { "Content-Type": "text/plain; charset=utf-8" });
+			res.end("Internal Server Error");
+		}
+	}
+
+	private readBody(req: IncomingMessage): Promise<string> {
+		return new Promise((resolve, reject) => {
+			let body = "";
+			req.on("data", (chunk: Buffer) => {
+				body += chunk.toString();
+			});
+			req.on("end", () => resolve(body));
+			req.on("error", reject);
+		});
+	}
+
+	private createSession(sessions: Map<string, string | null>, cookieName: string, username: string | null): string {
+		const id = randomBytes(12).toString("hex");
+		sessions.set(id, username);
+		return `${cookieName}=${id}; path=/; HttpOnly`;
+	}
+
+	private findReservation(data: string | null): MockReservation | undefined {
+		const [id] = (data || "").split(":||:");
+		return this.state.reservations.find((reservation) => String(reservation.id) === id);
+	}
+
+	private handleBus(request: MockRequest): MockResponse {
+		const { account } = this.config;
+		const { path, query } = request;
+
+		if (path === "/user/login") {
+			return html(busPages.renderLoginPage(), { "Set-Cookie": [this.createSession(this.busSessions, BUS_COOKIE, null)] });
+		}
+
+		if (path === "/user/userloginchk") {
+			const data = request.form.get("data") ?? query.get("data") ?? "";
+			const [username, password, userType] = data.split(":||:");
+
+			if (username !== account.username || password !== account.password) {
+				return text("");
+			}
+
+			return text(userType === "2" ? "2" : "1", { "Set-Cookie": [this.createSession(this.busSessions, BUS_COOKIE, username)] });
+		}
+
+		if (path === "/bus-stops") {
+			return html(busPages.renderBusStopsPage());
+		}
+
+		const sessionUser = this.busSessions.get(request.cookies[BUS_COOKIE] ?? "");
+		if (!sessionUser) {
+			return redirect("/");
+		}
+
+		const scheduleMatch = path.match(/^\/users\/schedule\/showall(?:\/(\d+))?\/?$/);
+		if (scheduleMatch) {
+			const page = parseInt(scheduleMatch[1] || "1");
+			return html(busPages.renderSchedulePage(account.name, this.state.reservations, page, this.config.busPageSize));
+		}
+
+		if (path === "/users/schedule/confirmreserv") {
+			const reservation = this.findReservation(query.get("data"));
+			if (!reservation || reservation.overtime) return text("0");
+
+			reservation.confirmed = true;
+			reservation.ticketId = reservation.ticketId ?? reservation.id - 4000;
+			return text("1");
+		}
+
+		if (path === "/users/schedule/unconfirmreserv") {
+			const reservation = this.findReservation(query.get("data"));
+			if (!reservation) return text("0");
+
+			reservation.confirmed = false;
+			reservation.ticketId = null;
+			return text("1");
+		}
+
+		const deleteMatch = path.match(/^\/users\/schedule\/delt\/(\d+)$/);
+		if (deleteMatch) {
+			this.state.reservations = this.state.reservations.filter((reservation) => String(reservation.id) !== deleteMatch[1]);
+			return redirect("/users/schedule/showall");
+		}
+
+		if (path === "/schedule/showevent") {
+			const months = [...new Set(this.state.busSchedules.map((schedule) => schedule.date.slice(0, 7)))];
+			const month = query.get("month") || months[0] || "";
+			return html(busPages.renderAvailablePage(month, months, this.state.busSchedules));
+		}
+
+		if (path === "/schedule/saveschereserv") {
+			const [scheduleId, scheduleDate, destinationType] = (query.get("data") || "").split(":||:");
+			const schedule = this.state.busSchedules.find((item) => String(item.id) === scheduleId && item.date === scheduleDate);
+			if (!schedule || !schedule.canReserve) return text("0");
+
+			schedule.canReserve = false;
+			this.state.reservations.push({
+				id: this.nextReservationId++,
+				scheduleId: schedule.id,
+				destinationType: destinationType === "2" ? 2 : 1,
+				date: schedule.date,
+				time: schedule.time,
+				confirmed: false,
+				overtime: false,
+				traveled: null,
+				ticketId: null,
+			});
+			return text("1");
+		}
+
+		const ticketMatch = path.match(/^\/users\/schedule\/showticket\/(\d+)$/);
+		if (ticketMatch) {
+			const reservation = this.state.reservations.find((item) => String(item.ticketId) === ticketMatch[1]);
+			if (!reservation) return notFound();
+			return html(busPages.renderTicketPage(reservation, sessionUser, account.name));
+		}
+
+		if (path === "/qrcode/generate") {
+			return { status: 200, headers: { "Content-Type": "image/png" }, body: busPages.renderQRCodePng(query.get("data") ?? "") };
+		}
+
+		if (path === "/user/profile") {
+			return html(busPages.renderProfilePage(sessionUser, account.name));
+		}
+
+		return notFound();
+	}
+
+	private handleReg(request: MockRequest): MockResponse {
+		const { account } = this.config;
+		const path = request.path.toLowerCase();
+		const params = (name: string) => request.form.get(name) ?? request.query.get(name);
+
+		if (path === "/registrar/login.asp") {
+			return windows874(regPages.renderLoginPage(), { "Set-Cookie": [this.createSession(this.regSessions, REG_COOKIE, null)] });
+		}
+
+		if (path === "/registrar/validate.asp") {
+			if (this.failedRegLogins >= this.config.maxLoginAttempts) {
+				return windows874(regPages.renderLoginPage(`ไม่สามารถเข้าสู่ระบบได้เนื่องจากระบุรหัสผิดเกิน ${this.config.maxLoginAttempts} ครั้ง`));
+			}
+
+			if (params("f_uid") !== account.username || params("f_pwd") !== account.password || params("BUILDKEY") !== regPages.BUILD_KEY) {
+				this.failedRegLogins++;
+				return windows874(regPages.renderLoginPage("กรุณาป้อนรหัสประจำตัวและรหัสผ่านให้ถูกต้อง"));
+			}
+
+			this.failedRegLogins = 0;
+			const existingSession = request.cookies[REG_COOKIE];
+			if (existingSession && this.regSessions.has(existingSession)) {
+				this.regSessions.set(existingSession, account.username);
+				return windows874(regPages.renderLoginSuccessPage());
+			}
+
+			return windows874(regPages.renderLoginSuccessPage(), { "Set-Cookie": [this.createSession(this.regSessions, REG_COOKIE, account.username)] });
+		}
+
+		const sessionUser = this.regSessions.get(request.cookies[REG_COOKIE] ?? "");
+		if (!sessionUser) {
+			return this.config.regExpiredBehavior === "redirect" ? redirect("login.asp") : windows874(regPages.renderLoginPage());
+		}
+
+		if (path === "/registrar/student.asp") {
+			return windows874(regPages.renderStudentPage(sessionUser, account.name));
+		}
+
+		if (path === "/registrar/time_table.asp") {
+			const terms = this.state.timetables;
+			const year = params("acadyear") ?? params("ACADYEAR");
+			const semester = params("semester") ?? params("SEMESTER");
+			const term = terms.find((item) => item.academicYear === year && item.semester === semester) ?? terms[terms.length - 1];
+			if (!term) return notFound();
+			return windows874(regPages.renderTimetablePage(sessionUser, account.name, terms, term));
+		}
+
+		if (path === "/registrar/exam_list.asp") {
+			const terms = this.state.exams;
+			const year = params("acadyear") ?? params("ACADYEAR");
+			const semester = params("semester") ?? params("SEMESTER");
+			const term = terms.find((item) => item.academicYear === year && item.semester === semester) ?? terms[terms.length - 1];
+			if (!term) return notFound();
+			return windows874(regPages.renderExamPage(sessionUser, account.name, terms, term));
+		}
+
+		if (path === "/registrar/grade.asp") {
+			const semesters = this.state.grades;
+			const year = params("gradeacadyear");
+			const semester = params("gradesemester");
+			const current = semesters.find((item) => item.academicYear === year && item.semester === semester) ?? semesters[semesters.length - 1];
+			if (!current) return notFound();
+			return windows874(regPages.renderGradePage(sessionUser, account.name, semesters, current));
+		}
+
+		if (path === "/registrar/studentactivitycheck.asp") {
+			return windows874(regPages.renderActivityPage(sessionUser, account.name, this.state.activities, REG_REQUIRED_ACTIVITY_HOURS));
+		}
+
+		if (path === "/registrar/student_studyplan.asp") {
+			return windows874(regPages.renderStudyPlanPage(sessionUser, account.name, this.state.studyPlan));
+		}
+
+		return notFound();
+	}
+}
+
+export async function startMockServer(config: Partial<MockServerConfig> = {}): Promise<MockServerHandle> {
+	const server = new CmruMockServer(config);
+	return await server.start();
+}
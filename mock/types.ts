@@ -0,0 +1,128 @@
+export interface MockAccount {
+	username: string;
+	password: string;
+	name: string;
+}
+
+export interface MockServerConfig {
+	port: number;
+	host: string;
+	account: MockAccount;
+	/**
+	 * Number of wrong reg passwords before the account gets locked out
+	 */
+	maxLoginAttempts: number;
+	/**
+	 * How reg pages respond when the ASP session is missing or expired
+	 */
+	regExpiredBehavior: "redirect" | "login-page";
+	busPageSize: number;
+}
+
+export interface MockReservation {
+	id: number;
+	scheduleId: number;
+	destinationType: 1 | 2;
+	date: string;
+	time: string;
+	confirmed: boolean;
+	overtime: boolean;
+	traveled: boolean | null;
+	ticketId: number | null;
+}
+
+export interface MockBusSchedule {
+	id: number;
+	destinationType: 1 | 2;
+	date: string;
+	time: string;
+	canReserve: boolean;
+}
+
+export interface MockGradeCourse {
+	courseCode: string;
+	courseName: string;
+	section: string;
+	credits: number;
+	grade: string;
+}
+
+export interface MockGradeSemester {
+	academicYear: string;
+	semester: string;
+	courses: MockGradeCourse[];
+}
+
+export interface MockTimetableCourse {
+	courseCode: string;
+	section: string;
+	courseName: string;
+	credits: string;
+	instructor: string;
+	schedule: string;
+}
+
+export interface MockTimetableTerm {
+	academicYear: string;
+	semester: string;
+	courses: MockTimetableCourse[];
+}
+
+export interface MockExam {
+	courseCode: string;
+	courseName: string;
+	section: string;
+	examType: "กลางภาค" | "ปลายภาค";
+	date: string;
+	time: string;
+	room: string;
+	seat: string;
+}
+
+export interface MockExamTerm {
+	academicYear: string;
+	semester: string;
+	exams: MockExam[];
+}
+
+export interface MockActivity {
+	activityId: string;
+	activityName: string;
+	status: string;
+	hours: number;
+	date: string;
+	location: string;
+	activityType: string;
+}
+
+export interface MockStudyPlanCourse {
+	courseCode: string;
+	courseName: string;
+	credits: number;
+	yearSemester: string;
+	grade: string;
+	prerequisite: string;
+}
+
+export interface MockStudyPlanCategory {
+	categoryName: string;
+	requiredCredits: number;
+	courses: MockStudyPlanCourse[];
+}
+
+export interface MockState {
+	reservations: MockReservation[];
+	busSchedules: MockBusSchedule[];
+	grades: MockGradeSemester[];
+	timetables: MockTimetableTerm[];
+	exams: MockExamTerm[];
+	activities: MockActivity[];
+	studyPlan: MockStudyPlanCategory[];
+}
+
+export interface MockServerHandle {
+	url: string;
+	state: MockState;
+	expireSessions: () => void;
+	close: () => Promise<void>;
+}
@@ -1,13 +1,29 @@
 import type { AxiosInstance, AxiosRequestConfig, AxiosResponse } from "axios";
 import type { BusApi } from "./types";
 import { SessionManager } from "./manager/session-manager";
-import { parseScheduleHTML, type ParsedScheduleData } from "./bus/parser/schedule";
-import { parseAvailableBusHTML, type AvailableBusData } from "./bus/parser/available";
-import { parseTicketHTML, type TicketInfo } from "./bus/parser/ticket";
+import { filterReservations, parseScheduleHTML, type ParsedScheduleData, type ReservationFilter, type ScheduleReservation } from "./bus/parser/schedule";
+import { calculateTravelStatistics, type TravelStatistics } from "./bus/statistics";
+import { normalizeBusMonth, parseAvailableBusHTML, type AvailableBusData, type AvailableBusSchedule } from "./bus/parser/available";
+import { getShowTicketUrl, parseTicketHTML, type ReservationTicket, type TicketInfo, type TicketQRPayload, type UpcomingTicketOptions } from "./bus/parser/ticket";
+import { createOfflineTicketBundle, type OfflineTicketBundle } from "./bus/ticket-bundle";
+import { decodeTicketQRImage } from "./bus/ticket-qr";
 import { parseUserProfileHTML, type UserProfileData } from "./bus/parser/profile";
+import { parseBusStopsHTML, type BusDestinationType, type BusStopCatalog } from "./bus/parser/stops";
 import type { SessionCredentials } from "../types/session";
 import { generateRandomUserAgent } from "./utilities/user-agent";
+import { formatBangkokDate, formatBangkokMonth, startOfBangkokDay } from "./utilities/thai-date";
 import { formatCookies } from "./manager/cookie-manager";
+import { ApiServer } from "../config/servers";
+import {
+	BookingConfirmationError,
+	CmruApiError,
+	InvalidCredentialsError,
+	LoginBlockedError,
+	NotLoggedInError,
+	SessionExpiredError,
+	UnexpectedResponseError,
+	UpstreamChangedError,
+} from "./errors";
 
 type LoginResponseCode = 1 | 2 | 3 | 5 | 8 | "EMPTY" | "OTHER";
 
@@ -49,6 +65,11 @@ export class Bus implements BusApi {
 		this.sessionManager = SessionManager.forBusApi(sessionKey);
 	}
 
+	private resolveUrl(path: string): string {
+		const origin = (this.client.defaults.baseURL || ApiServer.BUS).replace(/\/+$/, "");
+		return `${origin}${path}`;
+	}
+
 	private generateHeaders(): Record<string, string> {
 		return {
 			"User-Agent": generateRandomUserAgent(),
@@ -130,13 +151,13 @@ export class Bus implements BusApi {
 			const credentials = this.sessionManager.getCredentials();
 
 			if (!credentials) {
-				throw new Error("No credentials available for auto re-login");
+				throw new NotLoggedInError("bus", "No credentials available for auto re-login");
 			}
 
 			const response = await this.getSession(credentials.username, credentials.password, UserType.STUDENT);
 
 			if (!response.headers["set-cookie"]) {
-				throw new Error("Login failed - no cookies received");
+				throw new UnexpectedResponseError("Login failed - no cookies received", response.status);
 			}
 
 			return { cookies: response.headers["set-cookie"] };
@@ -170,7 +191,7 @@ export class Bus implements BusApi {
 			this.sessionManager.updateLastValidated();
 			return true;
 		} catch (error) {
-			if (error instanceof Error && error.message.includes("Session expired")) {
+			if (error instanceof SessionExpiredError) {
 				this.sessionManager.clearSession();
 			}
 			return false;
@@ -214,7 +235,7 @@ export class Bus implements BusApi {
 							"X-Requested-With": "XMLHttpRequest",
 							Accept: "*/*",
 							...(cookieHeader ? { Cookie: cookieHeader } : {}),
-							Referer: `https://cmrubus.cmru.ac.th${loginPage}`,
+							Referer: this.resolveUrl(loginPage),
 							...headers,
 						},
 						validateStatus: (status) => status >= 200 && status < 400,
@@ -237,7 +258,7 @@ export class Bus implements BusApi {
 							"X-Requested-With": "XMLHttpRequest",
 							Accept: "*/*",
 							...(cookieHeader ? { Cookie: cookieHeader } : {}),
-							Referer: `https://cmrubus.cmru.ac.th${loginPage}`,
+							Referer: this.resolveUrl(loginPage),
 							...headers,
 						},
 						validateStatus: (status) => status >= 200 && status < 400,
@@ -259,15 +280,15 @@ export class Bus implements BusApi {
 						return successResponse as AxiosResponse<T>;
 					}
 
-					throw new Error("Login succeeded but no response available");
+					throw new UnexpectedResponseError("Login succeeded but no response available");
 				} else if (code === 5) {
-					throw new Error("Login blocked (code 5): ต้องปรับปรุงข้อมูลบุคลากรที่ ePersonal");
+					throw new LoginBlockedError(5, "ต้องปรับปรุงข้อมูลบุคลากรที่ ePersonal");
 				} else if (code === 8) {
-					throw new Error("Login blocked (code 8): ให้บริการเฉพาะนักศึกษาวิทยาเขตแม่ริม");
+					throw new LoginBlockedError(8, "ให้บริการเฉพาะนักศึกษาวิทยาเขตแม่ริม");
 				} else if (code === "EMPTY") {
-					throw new Error("Login failed: Empty response (invalid username/password or session issue)");
+					throw new InvalidCredentialsError("bus", username, "Login failed: Empty response (invalid username/password or session issue)");
 				} else {
-					throw new Error(`Login failed: Unexpected response - ${JSON.stringify(text)}`);
+					throw new UnexpectedResponseError(`Login failed: Unexpected response - ${JSON.stringify(text)}`, successResponse?.status, text);
 				}
 			} catch (error) {
 				if (error instanceof Error && error.message.includes("timeout") && attempt < retries) {
@@ -279,7 +300,7 @@ export class Bus implements BusApi {
 			}
 		}
 
-		throw new Error("Login failed after all retry attempts");
+		throw new UnexpectedResponseError("Login failed after all retry attempts");
 	}
 
 	public async getScheduleRaw<T = unknown>(cookies?: string | string[], page?: number, _perPage?: number): Promise<AxiosResponse<T>> {
@@ -290,7 +311,7 @@ export class Bus implements BusApi {
 		const cookiesToUse = cookies || this.sessionManager.getCookies();
 
 		if (!cookiesToUse) {
-			throw new Error("No authentication cookies available. Please call login() first or provide cookies manually.");
+			throw new NotLoggedInError("bus", "No authentication cookies available. Please call login() first or provide cookies manually.");
 		}
 
 		const cookieString = formatCookies(cookiesToUse);
@@ -300,7 +321,7 @@ export class Bus implements BusApi {
 			headers: {
 				...headers,
 				Cookie: cookieString,
-				Referer: "https://cmrubus.cmru.ac.th/",
+				Referer: this.resolveUrl("/"),
 			},
 			maxRedirects: 0,
 			validateStatus: (status) => {
@@ -314,19 +335,19 @@ export class Bus implements BusApi {
 		if (response.status === 302 || response.status === 301) {
 			const location = response.headers["location"];
 
-			if (location === "https://cmrubus.cmru.ac.th/" || location === "/") {
-				throw new Error("Session expired or invalid. Please login again.");
+			if (location === this.resolveUrl("/") || location === "/") {
+				throw new SessionExpiredError("bus", "Session expired or invalid. Please login again.");
 			}
 		}
 
 		if (response.status !== 200) {
-			throw new Error(`Unexpected response status: ${response.status}`);
+			throw new UnexpectedResponseError(`Unexpected response status: ${response.status}`, response.status);
 		}
 
 		if (typeof response.data === "string") {
 			const htmlData = response.data as string;
 			if (htmlData.includes("userloginchk") || (htmlData.includes("ระบบจองการใช้บริการรถรับ-ส่ง") && !htmlData.includes("รายการจอง"))) {
-				throw new Error("Session expired - received login page instead of schedule data");
+				throw new SessionExpiredError("bus", "Session expired - received login page instead of schedule data");
 			}
 		}
 
@@ -379,34 +400,11 @@ export class Bus implements BusApi {
 	 * //   ]
 	 * // }
 	 * ```
+	 *
+	 * หากดึงหน้าถัดจากหน้าแรกไม่สำเร็จ จะคืนรายการจากหน้าที่ดึงได้แล้วแทนการโยนข้อผิดพลาด
 	 */
 	public async getSchedule(cookies?: string | string[], page: number = 1, perPage: number = 10): Promise<ParsedScheduleData> {
-		const allReservations: ParsedScheduleData["reservations"] = [];
-		let totalReservations = 0;
-		let userInfo = { name: "" };
-		let serverPage = 1;
-
-		const firstResponse = await this.getScheduleRaw<string>(cookies, serverPage);
-		const firstData = parseScheduleHTML(firstResponse.data);
-		totalReservations = firstData.totalReservations;
-		userInfo = firstData.userInfo;
-		allReservations.push(...firstData.reservations);
-
-		while (allReservations.length < totalReservations) {
-			serverPage++;
-			try {
-				const response = await this.getScheduleRaw<string>(cookies, serverPage);
-				const parsedData = parseScheduleHTML(response.data);
-
-				if (parsedData.reservations.length === 0) {
-					break;
-				}
-
-				allReservations.push(...parsedData.reservations);
-			} catch {
-				break;
-			}
-		}
+		const { userInfo, totalReservations, reservations: allReservations } = await this.fetchAllSchedulePages(cookies, { allowPartial: true });
 
 		const totalPages = Math.ceil(totalReservations / perPage);
 		const startIndex = (page - 1) * perPage;
@@ -427,6 +425,92 @@ export class Bus implements BusApi {
 		};
 	}
 
+	/**
+	 * ดึงรายการจองทุกหน้าแล้วรวมเป็นรายการเดียว พร้อมกรองตามช่วงวันที่ ปลายทาง สถานะการยืนยัน และสถานะการเดินทาง
+	 *
+	 * @example
+	 * ```typescript
+	 * const { reservations } = await busApi.getAllReservations({
+	 *   from: new Date('2025-11-01'),
+	 *   to: new Date('2025-11-30'),
+	 *   destination: 'แม่ริม',
+	 *   confirmationStatus: ConfirmationStatus.CONFIRMED,
+	 * });
+	 * console.log(reservations.length);
+	 * // Output: 8
+	 * ```
+	 *
+	 * ต่างจาก `getSchedule` ตรงที่จะโยนข้อผิดพลาดหากดึงหน้าใดไม่สำเร็จ เพื่อไม่ให้ผลการกรองหรือสถิติคิดจากข้อมูลไม่ครบ
+	 */
+	public async getAllReservations(filter: ReservationFilter = {}, cookies?: string | string[]): Promise<ParsedScheduleData> {
+		const { userInfo, reservations } = await this.fetchAllSchedulePages(cookies);
+		const filtered = filterReservations(reservations, filter);
+
+		return {
+			userInfo,
+			totalReservations: filtered.length,
+			currentPage: 1,
+			totalPages: 1,
+			hasNextPage: false,
+			hasPrevPage: false,
+			reservations: filtered,
+		};
+	}
+
+	/**
+	 * สรุปสถิติการเดินทางจากรายการจองทุกหน้า (กรองช่วงวันที่หรือปลายทางได้เหมือน `getAllReservations`)
+	 *
+	 * @example
+	 * ```typescript
+	 * const stats = await busApi.getTravelStatistics({ from: new Date('2025-06-01') });
+	 * console.log(stats.byMonth);
+	 * // Output: [{ month: '2025-06', total: 12, confirmed: 10, traveled: 9, notTraveled: 1 }, ...]
+	 * ```
+	 */
+	public async getTravelStatistics(filter: ReservationFilter = {}, cookies?: string | string[]): Promise<TravelStatistics> {
+		const schedule = await this.getAllReservations(filter, cookies);
+		return calculateTravelStatistics(schedule);
+	}
+
+	/**
+	 * ไล่ดึงหน้ารายการจองจนครบตามจำนวนหน้าที่ระบบแจ้ง โดยเผื่อกรณีแถบเลขหน้าแสดงไม่ครบด้วยการคำนวณจากจำนวนรายการทั้งหมด
+	 * `allowPartial` หยุดที่หน้าที่ดึงไม่สำเร็จแล้วคืนเท่าที่ได้ (พฤติกรรมเดิมของ `getSchedule`)
+	 */
+	private async fetchAllSchedulePages(
+		cookies?: string | string[],
+		options: { allowPartial?: boolean } = {},
+	): Promise<{ userInfo: ParsedScheduleData["userInfo"]; totalReservations: number; reservations: ScheduleReservation[] }> {
+		const firstResponse = await this.getScheduleRaw<string>(cookies, 1);
+		const firstData = parseScheduleHTML(firstResponse.data);
+		const pageSize = firstData.reservations.length;
+		const totalPages = Math.max(firstData.totalPages, pageSize > 0 ? Math.ceil(firstData.totalReservations / pageSize) : 1);
+		const reservations = [...firstData.reservations];
+
+		for (let page = 2; page <= totalPages; page++) {
+			let pageData: ParsedScheduleData;
+
+			try {
+				const response = await this.getScheduleRaw<string>(cookies, page);
+				pageData = parseScheduleHTML(response.data);
+			} catch (error) {
+				if (options.allowPartial) break;
+				throw error;
+			}
+
+			if (pageData.reservations.length === 0) {
+				break;
+			}
+
+			reservations.push(...pageData.reservations);
+		}
+
+		return {
+			userInfo: firstData.userInfo,
+			totalReservations: Math.max(firstData.totalReservations, reservations.length),
+			reservations,
+		};
+	}
+
 	/**
 	 * ยืนยันการจองรถประจำทาง
 	 *
@@ -449,7 +533,7 @@ export class Bus implements BusApi {
 		const cookiesToUse = cookies || this.sessionManager.getCookies();
 
 		if (!cookiesToUse) {
-			throw new Error("No authentication cookies available. Please call login() first or provide cookies manually.");
+			throw new NotLoggedInError("bus", "No authentication cookies available. Please call login() first or provide cookies manually.");
 		}
 
 		const cookieString = formatCookies(cookiesToUse);
@@ -459,7 +543,7 @@ export class Bus implements BusApi {
 			headers: {
 				...headers,
 				Cookie: cookieString,
-				Referer: "https://cmrubus.cmru.ac.th/users/schedule/showall",
+				Referer: this.resolveUrl("/users/schedule/showall"),
 				"X-Requested-With": "XMLHttpRequest",
 			},
 			maxRedirects: 0,
@@ -473,7 +557,7 @@ export class Bus implements BusApi {
 		const response = await this.client.get<string>(url, config);
 
 		if (response.status !== 200) {
-			throw new Error(`Failed to confirm reservation: ${response.status}`);
+			throw new UnexpectedResponseError(`Failed to confirm reservation: ${response.status}`, response.status);
 		}
 
 		return response;
@@ -517,7 +601,7 @@ export class Bus implements BusApi {
 		const cookiesToUse = cookies || this.sessionManager.getCookies();
 
 		if (!cookiesToUse) {
-			throw new Error("No authentication cookies available. Please call login() first or provide cookies manually.");
+			throw new NotLoggedInError("bus", "No authentication cookies available. Please call login() first or provide cookies manually.");
 		}
 
 		const cookieString = formatCookies(cookiesToUse);
@@ -527,7 +611,7 @@ export class Bus implements BusApi {
 			headers: {
 				...headers,
 				Cookie: cookieString,
-				Referer: "https://cmrubus.cmru.ac.th/users/schedule/showall",
+				Referer: this.resolveUrl("/users/schedule/showall"),
 				"X-Requested-With": "XMLHttpRequest",
 			},
 			maxRedirects: 0,
@@ -541,12 +625,12 @@ export class Bus implements BusApi {
 		const response = await this.client.get<string>(url, config);
 
 		if (response.status !== 200 && response.status !== 302) {
-			throw new Error(`Failed to unconfirm reservation: ${response.status}`);
+			throw new UnexpectedResponseError(`Failed to unconfirm reservation: ${response.status}`, response.status);
 		}
 
 		if (oneClick) {
 			try {
-				const schedule = await this.getSchedule(cookiesToUse);
+				const schedule = await this.getAllReservations({}, cookiesToUse);
 				const [countIdStr] = data.split(":||:");
 				const reservation = schedule.reservations.find((reservation) => {
 					const reservationData = reservation.confirmation.unconfirmData || reservation.confirmation.confirmData;
@@ -557,7 +641,15 @@ export class Bus implements BusApi {
 					await this.deleteReservation(reservation.actions.reservationId, cookiesToUse);
 				}
 			} catch (error) {
-				throw new Error(`Unconfirm succeeded but auto-deletion failed: ${error instanceof Error ? error.message : String(error)}`);
+				if (error instanceof SessionExpiredError || error instanceof NotLoggedInError) {
+					throw error;
+				}
+
+				throw new CmruApiError(
+					`Unconfirm succeeded but auto-deletion failed: ${error instanceof Error ? error.message : String(error)}`,
+					error instanceof CmruApiError ? error.code : "UNKNOWN",
+					{ cause: error },
+				);
 			}
 		}
 
@@ -572,7 +664,7 @@ export class Bus implements BusApi {
 		const cookiesToUse = cookies || this.sessionManager.getCookies();
 
 		if (!cookiesToUse) {
-			throw new Error("No authentication cookies available. Please call login() first or provide cookies manually.");
+			throw new NotLoggedInError("bus", "No authentication cookies available. Please call login() first or provide cookies manually.");
 		}
 
 		const cookieString = formatCookies(cookiesToUse);
@@ -582,7 +674,7 @@ export class Bus implements BusApi {
 			headers: {
 				...headers,
 				Cookie: cookieString,
-				Referer: "https://cmrubus.cmru.ac.th/users/schedule/showall",
+				Referer: this.resolveUrl("/users/schedule/showall"),
 				"X-Requested-With": "XMLHttpRequest",
 			},
 			maxRedirects: 0,
@@ -595,7 +687,7 @@ export class Bus implements BusApi {
 		const response = await this.client.get<string>(url, config);
 
 		if (response.status !== 200 && response.status !== 302 && response.status !== 307) {
-			throw new Error(`Failed to delete reservation: ${response.status}`);
+			throw new UnexpectedResponseError(`Failed to delete reservation: ${response.status}`, response.status);
 		}
 
 		return response;
@@ -605,6 +697,27 @@ export class Bus implements BusApi {
 		return this.client.get<T>("/bus-stops");
 	}
 
+	/**
+	 * ดึงเส้นทางรถ จุดจอด และเวลารถออกของแต่ละเส้นทาง (ไม่ต้อง login)
+	 *
+	 * @example
+	 * ```typescript
+	 * const catalog = await busApi.getBusStopCatalog();
+	 * const toMaeRim = catalog.routes.find((route) => route.destinationType === 1);
+	 * console.log(toMaeRim?.origin, toMaeRim?.departureTimes);
+	 * // Output: อาคารเฉลิมพระเกียรติ (เวียงบัว) ['07:30']
+	 * ```
+	 */
+	public async getBusStopCatalog(): Promise<BusStopCatalog> {
+		const response = await this.getBusStops<string>();
+
+		if (response.status !== 200) {
+			throw new UnexpectedResponseError(`Failed to fetch bus stops: ${response.status}`, response.status);
+		}
+
+		return parseBusStopsHTML(response.data);
+	}
+
 	public async getAvailableBusesRaw<T = unknown>(month?: string, cookies?: string | string[]): Promise<AxiosResponse<T>> {
 		if (!cookies) {
 			await this.ensureAuthenticated();
@@ -613,7 +726,7 @@ export class Bus implements BusApi {
 		const cookiesToUse = cookies || this.sessionManager.getCookies();
 
 		if (!cookiesToUse) {
-			throw new Error("No authentication cookies available. Please call login() first or provide cookies manually.");
+			throw new NotLoggedInError("bus", "No authentication cookies available. Please call login() first or provide cookies manually.");
 		}
 
 		const cookieString = formatCookies(cookiesToUse);
@@ -623,7 +736,7 @@ export class Bus implements BusApi {
 			headers: {
 				...headers,
 				Cookie: cookieString,
-				Referer: "https://cmrubus.cmru.ac.th/",
+				Referer: this.resolveUrl("/"),
 			},
 			maxRedirects: 0,
 			validateStatus: (status) => {
@@ -637,13 +750,13 @@ export class Bus implements BusApi {
 		if (response.status === 302 || response.status === 301) {
 			const location = response.headers["location"];
 
-			if (location === "https://cmrubus.cmru.ac.th/" || location === "/") {
-				throw new Error("Session expired or invalid. Please login again.");
+			if (location === this.resolveUrl("/") || location === "/") {
+				throw new SessionExpiredError("bus", "Session expired or invalid. Please login again.");
 			}
 		}
 
 		if (response.status !== 200) {
-			throw new Error(`Unexpected response status: ${response.status}`);
+			throw new UnexpectedResponseError(`Unexpected response status: ${response.status}`, response.status);
 		}
 
 		return response;
@@ -700,6 +813,55 @@ export class Bus implements BusApi {
 		return parseAvailableBusHTML(htmlData);
 	}
 
+	/**
+	 * ดึงรอบรถที่ให้บริการในช่วงวันที่ที่ระบุ ซึ่งอาจคร่อมหลายเดือน
+	 * ไล่ดึงทุกเดือนที่เลือกได้ในหน้าเว็บที่อยู่ในช่วง แล้วรวมรอบรถเรียงตามวันเวลา
+	 * ค่าเดือนที่แปลงเป็น `YYYY-MM` ไม่ได้ (ดู `normalizeBusMonth`) จะไม่ถูกดึง
+	 *
+	 * @example
+	 * ```typescript
+	 * const buses = await busApi.getAvailableBusesInRange(new Date('2025-11-20'), new Date('2025-12-10'));
+	 * console.log(buses.availableMonths, buses.totalAvailable);
+	 * // Output: ['2025-11', '2025-12'] 22
+	 * ```
+	 */
+	public async getAvailableBusesInRange(from: Date, to: Date, cookies?: string | string[]): Promise<AvailableBusData> {
+		const first = await this.getAvailableBuses(undefined, cookies);
+		const start = startOfBangkokDay(from);
+		const end = startOfBangkokDay(to, 1);
+
+		const months = first.availableMonths.filter((month) => {
+			const isoMonth = normalizeBusMonth(month);
+			return isoMonth !== undefined && isoMonth >= formatBangkokMonth(from) && isoMonth <= formatBangkokMonth(to);
+		});
+		const pages = [first];
+
+		for (const month of months) {
+			if (month === first.currentMonth) continue;
+			pages.push(await this.getAvailableBuses(month, cookies));
+		}
+
+		const seen = new Set<string>();
+		const availableSchedules: AvailableBusSchedule[] = [];
+
+		for (const schedule of pages.flatMap((page) => page.availableSchedules)) {
+			const key = `${schedule.id}:${schedule.scheduleDate}`;
+			if (seen.has(key) || schedule.date < start || schedule.date >= end) continue;
+
+			seen.add(key);
+			availableSchedules.push(schedule);
+		}
+
+		availableSchedules.sort((a, b) => a.date.getTime() - b.date.getTime());
+
+		return {
+			currentMonth: first.currentMonth,
+			availableMonths: first.availableMonths,
+			availableSchedules,
+			totalAvailable: availableSchedules.length,
+		};
+	}
+
 	/**
 	 * จองรถประจำทาง
 	 *
@@ -712,8 +874,17 @@ export class Bus implements BusApi {
 	 * await busApi.bookBus(1451, '2025-11-16', 2, undefined, true);
 	 * // Output: จองสำเร็จและยืนยันแล้ว
 	 * ```
+	 *
+	 * เมื่อ `oneClick` เป็น `true` และจองสำเร็จแต่ยืนยันไม่สำเร็จ จะโยน `BookingConfirmationError`
+	 * (ยกเว้น session หมดอายุระหว่างยืนยัน ซึ่งจะโยน `SessionExpiredError`/`NotLoggedInError` ตามเดิม)
 	 */
-	public async bookBus(scheduleId: number, scheduleDate: string, destinationType: 1 | 2, cookies?: string | string[], oneClick: boolean = false): Promise<AxiosResponse<number>> {
+	public async bookBus(
+		scheduleId: number,
+		scheduleDate: string,
+		destinationType: BusDestinationType,
+		cookies?: string | string[],
+		oneClick: boolean = false,
+	): Promise<AxiosResponse<number>> {
 		if (!cookies) {
 			await this.ensureAuthenticated();
 		}
@@ -721,7 +892,7 @@ export class Bus implements BusApi {
 		const cookiesToUse = cookies || this.sessionManager.getCookies();
 
 		if (!cookiesToUse) {
-			throw new Error("No authentication cookies available. Please call login() first or provide cookies manually.");
+			throw new NotLoggedInError("bus", "No authentication cookies available. Please call login() first or provide cookies manually.");
 		}
 
 		const cookieString = formatCookies(cookiesToUse);
@@ -731,7 +902,7 @@ export class Bus implements BusApi {
 			headers: {
 				...headers,
 				Cookie: cookieString,
-				Referer: "https://cmrubus.cmru.ac.th/schedule/showevent",
+				Referer: this.resolveUrl("/schedule/showevent"),
 				"X-Requested-With": "XMLHttpRequest",
 			},
 			maxRedirects: 0,
@@ -746,30 +917,31 @@ export class Bus implements BusApi {
 		const response = await this.client.get<number>(url, config);
 
 		if (response.status !== 200) {
-			throw new Error(`Failed to book bus: ${response.status}`);
+			throw new UnexpectedResponseError(`Failed to book bus: ${response.status}`, response.status);
 		}
 
 		if (oneClick) {
 			try {
-				const schedule = await this.getSchedule(cookiesToUse);
-				const targetDate = new Date(scheduleDate);
-				const reservation = schedule.reservations.find((r) => {
-					const resDate = new Date(r.date);
-					return (
-						resDate.getFullYear() === targetDate.getFullYear() &&
-						resDate.getMonth() === targetDate.getMonth() &&
-						resDate.getDate() === targetDate.getDate() &&
-						r.confirmation.canConfirm
-					);
-				});
+				const schedule = await this.getAllReservations({}, cookiesToUse);
+				const targetDate = scheduleDate.slice(0, 10);
+				const reservation = schedule.reservations.find((r) => formatBangkokDate(r.date) === targetDate && r.confirmation.canConfirm);
 
 				if (!reservation || !reservation.confirmation.confirmData) {
-					throw new Error("Booking succeeded but could not find reservation for auto-confirmation");
+					throw new BookingConfirmationError(scheduleId, scheduleDate, "Booking succeeded but could not find reservation for auto-confirmation");
 				}
 
 				await this.confirmReservation(reservation.confirmation.confirmData, cookiesToUse);
 			} catch (error) {
-				throw new Error(`Booking succeeded but auto-confirmation failed: ${error instanceof Error ? error.message : String(error)}`);
+				if (error instanceof BookingConfirmationError || error instanceof SessionExpiredError || error instanceof NotLoggedInError) {
+					throw error;
+				}
+
+				throw new BookingConfirmationError(
+					scheduleId,
+					scheduleDate,
+					`Booking succeeded but auto-confirmation failed: ${error instanceof Error ? error.message : String(error)}`,
+					error,
+				);
 			}
 		}
 
@@ -784,7 +956,7 @@ export class Bus implements BusApi {
 		const cookiesToUse = cookies || this.sessionManager.getCookies();
 
 		if (!cookiesToUse) {
-			throw new Error("No authentication cookies available. Please call login() first or provide cookies manually.");
+			throw new NotLoggedInError("bus", "No authentication cookies available. Please call login() first or provide cookies manually.");
 		}
 
 		const cookieString = formatCookies(cookiesToUse);
@@ -794,7 +966,7 @@ export class Bus implements BusApi {
 			headers: {
 				...headers,
 				Cookie: cookieString,
-				Referer: "https://cmrubus.cmru.ac.th/users/schedule/showall",
+				Referer: this.resolveUrl("/users/schedule/showall"),
 			},
 			maxRedirects: 0,
 			validateStatus: (status) => {
@@ -807,13 +979,13 @@ export class Bus implements BusApi {
 		if (response.status === 302 || response.status === 301) {
 			const location = response.headers["location"];
 
-			if (location === "https://cmrubus.cmru.ac.th/" || location === "/") {
-				throw new Error("Session expired or invalid. Please login again.");
+			if (location === this.resolveUrl("/") || location === "/") {
+				throw new SessionExpiredError("bus", "Session expired or invalid. Please login again.");
 			}
 		}
 
 		if (response.status !== 200) {
-			throw new Error(`Unexpected response status: ${response.status}`);
+			throw new UnexpectedResponseError(`Unexpected response status: ${response.status}`, response.status);
 		}
 
 		return response;
@@ -838,7 +1010,10 @@ export class Bus implements BusApi {
 	 * //     time: "08:00",
 	 * //     fullSchedule: "วันจันทร์, 15 พฤศจิกายน 2568 เวลา 08:00"
 	 * //   },
-	 * //   qrCode: { imageUrl: "/qrcode/generate?data=..." },
+	 * //   qrCode: {
+	 * //     imageUrl: "/qrcode/generate?data=...",
+	 * //     payload: { raw: "5004:||:66143000:||:2025-11-15", ticketId: 5004, studentId: "66143000", scheduleDate: "2025-11-15" }
+	 * //   },
 	 * //   student: { studentId: "66143000", name: "นายจอห์น โด" }
 	 * // }
 	 * ```
@@ -868,28 +1043,162 @@ export class Bus implements BusApi {
 	 */
 	public async getTicketQRCodeImage(showticketUrl: string, cookies?: string | string[]): Promise<AxiosResponse<Buffer>> {
 		const ticketInfo = await this.getTicketInfo(showticketUrl, cookies);
+		return this.downloadTicketQRCode(ticketInfo, showticketUrl, cookies);
+	}
+
+	/**
+	 * ดาวน์โหลดรูป QR Code ของตั๋วแล้วถอดรหัสข้อมูลจากตัวรูป คืน `undefined` หากอ่าน QR Code ในรูปไม่ได้
+	 *
+	 * @example
+	 * ```typescript
+	 * const payload = await busApi.getTicketQRPayload('/users/schedule/showticket/5004');
+	 * console.log(payload?.ticketId, payload?.scheduleDate);
+	 * // Output: 5004 2025-11-15
+	 * ```
+	 */
+	public async getTicketQRPayload(showticketUrl: string, cookies?: string | string[]): Promise<TicketQRPayload | undefined> {
+		const image = await this.getTicketQRCodeImage(showticketUrl, cookies);
+		return decodeTicketQRImage(image.data);
+	}
+
+	/**
+	 * ดึงตั๋วพร้อมรูป QR Code แล้วรวมเป็น bundle สำหรับแสดงตั๋วแบบออฟไลน์
+	 *
+	 * @example
+	 * ```typescript
+	 * const bundle = await busApi.getOfflineTicketBundle('/users/schedule/showticket/5004');
+	 * fs.writeFileSync('ticket-5004.json', JSON.stringify(bundle));
+	 * console.log(bundle.payload);
+	 * // Output: { raw: '5004:||:66143000:||:2025-11-15', ticketId: 5004, studentId: '66143000', scheduleDate: '2025-11-15' }
+	 * ```
+	 */
+	public async getOfflineTicketBundle(showticketUrl: string, cookies?: string | string[]): Promise<OfflineTicketBundle> {
+		const ticketInfo = await this.getTicketInfo(showticketUrl, cookies);
+		const image = await this.downloadTicketQRCode(ticketInfo, showticketUrl, cookies);
+		const contentType = image.headers["content-type"];
+		const ticketIdMatch = showticketUrl.match(/\/showticket\/(\d+)/);
+
+		return createOfflineTicketBundle(ticketInfo, image.data, {
+			ticketId: ticketIdMatch?.[1] ? parseInt(ticketIdMatch[1]) : undefined,
+			mimeType: typeof contentType === "string" && contentType.startsWith("image/") ? contentType.split(";")[0] : undefined,
+		});
+	}
+
+	/**
+	 * ดึงหน้าตั๋ว (HTML ดิบ) จากรหัสตั๋ว (`ScheduleReservation.ticket.id`) แทน `showticketUrl`
+	 *
+	 * @example
+	 * ```typescript
+	 * const { reservations } = await busApi.getSchedule();
+	 * const ticketId = reservations.find((reservation) => reservation.ticket.hasQRCode)?.ticket.id;
+	 *
+	 * if (ticketId) {
+	 *   const response = await busApi.getTicketById<string>(ticketId);
+	 *   console.log(response.status);
+	 *   // Output: 200
+	 * }
+	 * ```
+	 */
+	public async getTicketById<T = unknown>(ticketId: number, cookies?: string | string[]): Promise<AxiosResponse<T>> {
+		return this.getTicket<T>(getShowTicketUrl(ticketId), cookies);
+	}
+
+	/**
+	 * ดึงข้อมูลตั๋วจากรหัสตั๋ว (`ScheduleReservation.ticket.id`) แทน `showticketUrl`
+	 *
+	 * @example
+	 * ```typescript
+	 * const { reservations } = await busApi.getSchedule();
+	 * const ticketId = reservations.find((reservation) => reservation.ticket.hasQRCode)?.ticket.id;
+	 *
+	 * if (ticketId) {
+	 *   const ticket = await busApi.getTicketInfoById(ticketId);
+	 *   console.log(ticket.schedule.fullSchedule);
+	 *   // Output: วันเสาร์, 15 พฤศจิกายน 2568, 07.30
+	 * }
+	 * ```
+	 */
+	public async getTicketInfoById(ticketId: number, cookies?: string | string[]): Promise<TicketInfo> {
+		return this.getTicketInfo(getShowTicketUrl(ticketId), cookies);
+	}
+
+	/**
+	 * ดาวน์โหลดรูป QR Code ของตั๋วจากรหัสตั๋ว (`ScheduleReservation.ticket.id`) แทน `showticketUrl`
+	 *
+	 * @example
+	 * ```typescript
+	 * const qrImage = await busApi.getTicketQRCodeImageById(5004);
+	 * fs.writeFileSync('qr-5004.png', qrImage.data);
+	 * // Output: ไฟล์ qr-5004.png ถูกสร้างขึ้น
+	 * ```
+	 */
+	public async getTicketQRCodeImageById(ticketId: number, cookies?: string | string[]): Promise<AxiosResponse<Buffer>> {
+		return this.getTicketQRCodeImage(getShowTicketUrl(ticketId), cookies);
+	}
+
+	/**
+	 * ดึงตั๋วพร้อมรูป QR Code จากรหัสตั๋วแล้วรวมเป็น bundle สำหรับแสดงตั๋วแบบออฟไลน์
+	 *
+	 * @example
+	 * ```typescript
+	 * const bundle = await busApi.getOfflineTicketBundleById(5004);
+	 * console.log(bundle.ticketId, bundle.qrCode.mimeType);
+	 * // Output: 5004 image/png
+	 * ```
+	 */
+	public async getOfflineTicketBundleById(ticketId: number, cookies?: string | string[]): Promise<OfflineTicketBundle> {
+		return this.getOfflineTicketBundle(getShowTicketUrl(ticketId), cookies);
+	}
+
+	/**
+	 * ดึงข้อมูลตั๋วของทุกการจองที่มี QR Code ตั้งแต่วันนี้เป็นต้นไป เรียงตามเวลาออกรถ
+	 *
+	 * @example
+	 * ```typescript
+	 * const today = await busApi.getUpcomingTickets({ todayOnly: true });
+	 * for (const { reservation, ticket } of today) {
+	 *   console.log(reservation.departureTime, ticket.destination.name, ticket.qrCode.payload?.ticketId);
+	 * }
+	 * // Output: 07.30 แม่ริม 5004
+	 * ```
+	 */
+	public async getUpcomingTickets(options: UpcomingTicketOptions = {}, cookies?: string | string[]): Promise<ReservationTicket[]> {
+		const now = options.now ?? new Date();
+		const schedule = await this.getAllReservations({ from: now, to: options.todayOnly ? now : undefined }, cookies);
+		const tickets: ReservationTicket[] = [];
+
+		for (const reservation of schedule.reservations) {
+			if (!reservation.ticket.hasQRCode || reservation.ticket.id === null) continue;
+
+			tickets.push({ reservation, ticket: await this.getTicketInfoById(reservation.ticket.id, cookies) });
+		}
+
+		return tickets.sort((a, b) => a.reservation.date.getTime() - b.reservation.date.getTime());
+	}
+
+	private async downloadTicketQRCode(ticketInfo: TicketInfo, showticketUrl: string, cookies?: string | string[]): Promise<AxiosResponse<Buffer>> {
 		const qrImageUrl = ticketInfo.qrCode.imageUrl;
 
 		if (!qrImageUrl) {
-			throw new Error("QR code image URL not found in ticket");
+			throw new UpstreamChangedError("ticket", "QR code image URL not found in ticket");
 		}
 
 		const cookiesToUse = cookies || this.sessionManager.getCookies();
 
 		if (!cookiesToUse) {
-			throw new Error("No authentication cookies available.");
+			throw new NotLoggedInError("bus", "No authentication cookies available.");
 		}
 
 		const cookieString = formatCookies(cookiesToUse);
 		const headers = this.generateHeaders();
-		const fullQrImageUrl = qrImageUrl.startsWith("http") ? qrImageUrl : `https://cmrubus.cmru.ac.th${qrImageUrl}`;
+		const fullQrImageUrl = qrImageUrl.startsWith("http") ? qrImageUrl : this.resolveUrl(qrImageUrl);
 
 		const config: AxiosRequestConfig = {
 			withCredentials: true,
 			headers: {
 				...headers,
 				Cookie: cookieString,
-				Referer: `https://cmrubus.cmru.ac.th${showticketUrl}`,
+				Referer: this.resolveUrl(showticketUrl),
 			},
 			responseType: "arraybuffer",
 			validateStatus: (status) => {
@@ -900,7 +1209,7 @@ export class Bus implements BusApi {
 		const response = await this.client.get<Buffer>(fullQrImageUrl, config);
 
 		if (response.status !== 200) {
-			throw new Error(`Failed to get QR code image: ${response.status}`);
+			throw new UnexpectedResponseError(`Failed to get QR code image: ${response.status}`, response.status);
 		}
 
 		return response;
@@ -919,7 +1228,7 @@ export class Bus implements BusApi {
 		const cookiesToUse = cookies || this.sessionManager.getCookies();
 
 		if (!cookiesToUse) {
-			throw new Error("No valid session found. Please login first.");
+			throw new NotLoggedInError("bus", "No valid session found. Please login first.");
 		}
 
 		const cookieString = formatCookies(cookiesToUse);
@@ -929,7 +1238,7 @@ export class Bus implements BusApi {
 			headers: {
 				...headers,
 				Cookie: cookieString,
-				Referer: "https://cmrubus.cmru.ac.th/",
+				Referer: this.resolveUrl("/"),
 			},
 			maxRedirects: 0,
 			validateStatus: (status) => status >= 200 && status < 400,
@@ -940,12 +1249,12 @@ export class Bus implements BusApi {
 		if (response.status === 302 || response.status === 301) {
 			const location = response.headers["location"];
 			if (location?.includes("login")) {
-				throw new Error("Session expired. Please login again.");
+				throw new SessionExpiredError("bus");
 			}
 		}
 
 		if (response.status !== 200) {
-			throw new Error(`Failed to get user profile: ${response.status}`);
+			throw new UnexpectedResponseError(`Failed to get user profile: ${response.status}`, response.status);
 		}
 
 		return response;
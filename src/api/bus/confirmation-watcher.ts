@@ -0,0 +1,196 @@
+import type { BusApi } from "../types";
+import { ConfirmationStatus, type ScheduleReservation } from "./parser/schedule";
+
+/**
+ * เหตุการณ์ที่ `ConfirmationWatcher` ส่งออก
+ * - `window_opened` การจองเข้าสู่ช่วงที่กดยืนยันได้
+ * - `auto_confirmed` / `auto_confirm_failed` ผลการยืนยันอัตโนมัติ
+ * - `expiring` ใกล้หมดเวลายืนยันแต่ยังไม่ได้ยืนยัน
+ * - `expired` เลยเวลายืนยันแล้ว (สถานะ `เกินเวลายืนยัน`) ส่งเมื่อพบสถานะนี้ครั้งแรก แม้ไม่เคยเห็นการจองนั้นในช่วงที่ยืนยันได้
+ */
+export type ConfirmationEventType = "window_opened" | "auto_confirmed" | "auto_confirm_failed" | "expiring" | "expired";
+
+export interface ConfirmationEvent {
+	type: ConfirmationEventType;
+	reservation: ScheduleReservation;
+	/** เวลาสุดท้ายที่คาดว่ายังยืนยันได้ */
+	deadline: Date;
+	timestamp: Date;
+	error?: string;
+}
+
+export interface ConfirmationWatcherOptions {
+	/** cookies ของผู้ใช้ หากไม่ระบุจะใช้ session ของ `busApi` */
+	cookies?: string | string[];
+	/** ระยะเวลาระหว่างการตรวจแต่ละรอบ (มิลลิวินาที, ค่าเริ่มต้น 5 นาที) */
+	pollInterval?: number;
+	/** ยืนยันให้อัตโนมัติเมื่อเข้าช่วงยืนยัน ระบุเป็นฟังก์ชันเพื่อเลือกเฉพาะบางการจองได้ */
+	autoConfirm?: boolean | ((reservation: ScheduleReservation) => boolean);
+	/** ปิดรับการยืนยันก่อนเวลาออกรถกี่นาที (ค่าเริ่มต้น 60) */
+	confirmCutoffMinutes?: number;
+	/** แจ้งเตือน `expiring` เมื่อเหลือเวลาก่อนปิดรับยืนยันไม่เกินกี่นาที (ค่าเริ่มต้น 120) */
+	reminderMinutes?: number;
+	onEvent?: (event: ConfirmationEvent) => void | Promise<void>;
+	onError?: (error: unknown) => void;
+}
+
+interface ReservationState {
+	windowOpened: boolean;
+	reminded: boolean;
+	expired: boolean;
+	autoConfirmAttempted: boolean;
+}
+
+/** คอลัมน์ลำดับในหน้ารายการจองเปลี่ยนตามหน้า จึงใช้เวลาออกรถและปลายทางระบุการจองแทน */
+function reservationKey(reservation: ScheduleReservation): string {
+	return `${reservation.date.getTime()}:${reservation.destination.type}`;
+}
+
+/**
+ * ตรวจตารางการจองเป็นระยะ แจ้งเตือนการจองที่ต้องยืนยัน และยืนยันให้อัตโนมัติตามที่ผู้ใช้เลือก
+ * แต่ละเหตุการณ์ของการจองหนึ่งรายการจะถูกส่งเพียงครั้งเดียว
+ *
+ * @example
+ * ```typescript
+ * const watcher = new ConfirmationWatcher(busApi, {
+ *   autoConfirm: (reservation) => reservation.destination.type === 'แม่ริม',
+ *   reminderMinutes: 180,
+ *   onEvent: (event) => console.log(event.type, event.reservation.id, event.deadline),
+ * });
+ *
+ * watcher.start();
+ * // Output: window_opened 3 2025-11-15T06:30:00.000Z
+ * //         auto_confirmed 3 2025-11-15T06:30:00.000Z
+ * ```
+ */
+export class ConfirmationWatcher {
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private checking = false;
+	private readonly states = new Map<string, ReservationState>();
+	private readonly options: Required<Pick<ConfirmationWatcherOptions, "pollInterval" | "confirmCutoffMinutes" | "reminderMinutes">> & ConfirmationWatcherOptions;
+
+	constructor(
+		private readonly busApi: BusApi,
+		options: ConfirmationWatcherOptions = {},
+	) {
+		this.options = {
+			...options,
+			pollInterval: options.pollInterval ?? 5 * 60 * 1000,
+			confirmCutoffMinutes: options.confirmCutoffMinutes ?? 60,
+			reminderMinutes: options.reminderMinutes ?? 120,
+		};
+	}
+
+	public start(): void {
+		if (this.timer) return;
+
+		this.timer = setInterval(() => void this.runCheck(), this.options.pollInterval);
+		this.timer.unref?.();
+		void this.runCheck();
+	}
+
+	public stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
+
+	/**
+	 * ปรับตัวเลือกระหว่างทำงาน โดยยังจำเหตุการณ์ที่เคยส่งไปแล้ว
+	 */
+	public configure(options: Partial<Pick<ConfirmationWatcherOptions, "cookies" | "autoConfirm" | "confirmCutoffMinutes" | "reminderMinutes">>): void {
+		Object.assign(this.options, Object.fromEntries(Object.entries(options).filter(([key, value]) => value !== undefined || key === "cookies")));
+	}
+
+	public getDeadline(reservation: ScheduleReservation): Date {
+		return new Date(reservation.date.getTime() - this.options.confirmCutoffMinutes * 60 * 1000);
+	}
+
+	/**
+	 * ตรวจตารางการจองหนึ่งรอบและคืนเหตุการณ์ที่เกิดขึ้นในรอบนี้
+	 */
+	public async check(now: Date = new Date()): Promise<ConfirmationEvent[]> {
+		const schedule = await this.busApi.getAllReservations({}, this.options.cookies);
+		const events: ConfirmationEvent[] = [];
+
+		const emit = async (type: ConfirmationEventType, reservation: ScheduleReservation, error?: string) => {
+			const event: ConfirmationEvent = { type, reservation, deadline: this.getDeadline(reservation), timestamp: new Date(), error };
+			events.push(event);
+			await this.options.onEvent?.(event);
+		};
+
+		for (const reservation of schedule.reservations) {
+			const key = reservationKey(reservation);
+			const state = this.states.get(key) ?? { windowOpened: false, reminded: false, expired: false, autoConfirmAttempted: false };
+			this.states.set(key, state);
+
+			if (reservation.confirmation.status === ConfirmationStatus.OVERTIME) {
+				if (!state.expired) {
+					state.expired = true;
+					await emit("expired", reservation);
+				}
+				continue;
+			}
+
+			if (!reservation.confirmation.canConfirm || reservation.confirmation.isConfirmed || reservation.date <= now) {
+				continue;
+			}
+
+			if (!state.windowOpened) {
+				state.windowOpened = true;
+				await emit("window_opened", reservation);
+			}
+
+			if (!state.autoConfirmAttempted && reservation.confirmation.confirmData && this.shouldAutoConfirm(reservation)) {
+				state.autoConfirmAttempted = true;
+
+				try {
+					const response = await this.busApi.confirmReservation(reservation.confirmation.confirmData, this.options.cookies);
+
+					if (String(response.data).trim() !== "0") {
+						await emit("auto_confirmed", reservation);
+						continue;
+					}
+
+					await emit("auto_confirm_failed", reservation, "Confirmation rejected by server");
+				} catch (error) {
+					await emit("auto_confirm_failed", reservation, error instanceof Error ? error.message : String(error));
+				}
+			}
+
+			const remaining = this.getDeadline(reservation).getTime() - now.getTime();
+			if (!state.reminded && remaining <= this.options.reminderMinutes * 60 * 1000) {
+				state.reminded = true;
+				await emit("expiring", reservation);
+			}
+		}
+
+		const currentKeys = new Set(schedule.reservations.map(reservationKey));
+		for (const key of this.states.keys()) {
+			if (!currentKeys.has(key)) {
+				this.states.delete(key);
+			}
+		}
+
+		return events;
+	}
+
+	private shouldAutoConfirm(reservation: ScheduleReservation): boolean {
+		const { autoConfirm } = this.options;
+		return typeof autoConfirm === "function" ? autoConfirm(reservation) : autoConfirm === true;
+	}
+
+	private async runCheck(): Promise<void> {
+		if (this.checking) return;
+		this.checking = true;
+
+		try {
+			await this.check();
+		} catch (error) {
+			this.options.onError?.(error);
+		} finally {
+			this.checking = false;
+		}
+	}
+}
@@ -1,13 +1,18 @@
 import * as cheerio from "cheerio";
+import { UpstreamChangedError } from "../../errors";
+import { formatBangkokTime, getBangkokDateParts, parseBangkokDateTime, parseThaiMonth, toChristianYear } from "../../utilities/thai-date";
 import { DayOfWeek } from "./schedule";
+import { getBusDestinationName, isBusDestinationType, type BusDestination, type BusDestinationType } from "./stops";
 
 export interface AvailableBusSchedule {
 	id: number;
 	title: string;
-	destination: "แม่ริม" | "เวียงบัว";
-	destinationType: 1 | 2;
+	destination: BusDestination;
+	destinationType: BusDestinationType;
 	departureDate: DayOfWeek;
 	date: Date;
+	/** วันที่ของรอบรถตามที่ระบบส่งมา (`YYYY-MM-DD`) ใช้ส่งต่อให้ `bookBus` */
+	scheduleDate: string;
 	departureTime: string;
 	canReserve: boolean;
 	isReserved: boolean;
@@ -16,16 +21,68 @@ export interface AvailableBusSchedule {
 
 export interface AvailableBusData {
 	currentMonth: string;
+	/** ค่าของเดือนที่เลือกได้จากตัวเลือก `#sMonth` ใช้ส่งเป็น `month` ให้ `getAvailableBuses` */
+	availableMonths: string[];
 	availableSchedules: AvailableBusSchedule[];
 	totalAvailable: number;
 }
 
+/**
+ * แปลงค่าเดือนจากตัวเลือก `#sMonth` เป็น `YYYY-MM` (ค.ศ.) รองรับ `YYYY-MM`, `YYYY/MM`, `MM/YYYY`, `YYYYMM`,
+ * ปี พ.ศ. และชื่อเดือนภาษาไทย คืน `undefined` หากไม่รู้จักรูปแบบ
+ *
+ * @example
+ * ```typescript
+ * normalizeBusMonth('2568-11'); // Output: '2025-11'
+ * normalizeBusMonth('11/2025'); // Output: '2025-11'
+ * normalizeBusMonth('พฤศจิกายน 2568'); // Output: '2025-11'
+ * ```
+ */
+export function normalizeBusMonth(value: string): string | undefined {
+	const text = value.trim();
+	let year: number | undefined;
+	let month: number | undefined;
+
+	const yearFirst = text.match(/^(\d{4})[-/]?(\d{1,2})$/);
+	const monthFirst = text.match(/^(\d{1,2})[-/](\d{4})$/);
+	const thaiMonth = text.match(/^([ก-์.]+)\s*(\d{2,4})$/);
+
+	if (yearFirst?.[1] && yearFirst[2]) {
+		year = parseInt(yearFirst[1]);
+		month = parseInt(yearFirst[2]);
+	} else if (monthFirst?.[1] && monthFirst[2]) {
+		month = parseInt(monthFirst[1]);
+		year = parseInt(monthFirst[2]);
+	} else if (thaiMonth?.[1] && thaiMonth[2]) {
+		month = parseThaiMonth(thaiMonth[1]);
+		year = parseInt(thaiMonth[2]);
+	}
+
+	if (!year || !month || month < 1 || month > 12) {
+		return undefined;
+	}
+
+	return `${toChristianYear(year)}-${String(month).padStart(2, "0")}`;
+}
+
 export function parseAvailableBusHTML(html: string): AvailableBusData {
 	const $ = cheerio.load(html);
 
 	const availableSchedules: AvailableBusSchedule[] = [];
+	if ($("#sMonth").length === 0) {
+		throw new UpstreamChangedError("available", "Month selector (#sMonth) not found on bus reservation page");
+	}
+
 	const currentMonth = ($("#sMonth option[selected]").val() as string) || "";
+	const availableMonths = $("#sMonth option")
+		.map((_index, option) => (($(option).val() as string | undefined) || "").trim())
+		.get()
+		.filter((month, index, months) => month && months.indexOf(month) === index);
 	const scriptContent = $("script").text();
+	if (!/events:\s*\[/.test(scriptContent)) {
+		throw new UpstreamChangedError("available", "Calendar events not found on bus reservation page");
+	}
+
 	const eventsMatch = scriptContent.match(/events:\s*\[(.+)\]\s*\n/);
 
 	if (eventsMatch && eventsMatch[1]) {
@@ -39,13 +96,17 @@ export function parseAvailableBusHTML(html: string): AvailableBusData {
 
 			if (!title || !start || !schDate || !schId || !scdType) continue;
 
-			const destinationType = parseInt(scdType) as 1 | 2;
-			const destination = destinationType === 1 ? "แม่ริม" : "เวียงบัว";
+			const destinationType = parseInt(scdType);
+			if (!isBusDestinationType(destinationType)) continue;
+
+			const destination = getBusDestinationName(destinationType);
+			if (!destination) continue;
 
 			const canReserve = reservStatus === "1";
 			const requiresLogin = signinStatus === "1";
-			const dateObj = new Date(start);
-			const dayIndex = dateObj.getDay();
+			const dateObj = parseBangkokDateTime(start) ?? parseBangkokDateTime(schDate);
+			if (!dateObj) continue;
+
 			const dayOfWeekMap: DayOfWeek[] = [
 				DayOfWeek.SUNDAY,
 				DayOfWeek.MONDAY,
@@ -55,10 +116,8 @@ export function parseAvailableBusHTML(html: string): AvailableBusData {
 				DayOfWeek.FRIDAY,
 				DayOfWeek.SATURDAY,
 			];
-			const departureDate = dayOfWeekMap[dayIndex] || DayOfWeek.MONDAY;
-			const hours = dateObj.getHours();
-			const minutes = dateObj.getMinutes();
-			const departureTime = `${String(hours).padStart(2, "0")}:${String(minutes).padStart(2, "0")}`;
+			const departureDate = dayOfWeekMap[getBangkokDateParts(dateObj).weekday] || DayOfWeek.MONDAY;
+			const departureTime = formatBangkokTime(dateObj);
 
 			availableSchedules.push({
 				id: parseInt(schId),
@@ -67,6 +126,7 @@ export function parseAvailableBusHTML(html: string): AvailableBusData {
 				destinationType,
 				departureDate,
 				date: dateObj,
+				scheduleDate: schDate,
 				departureTime,
 				canReserve,
 				isReserved: !canReserve,
@@ -79,6 +139,7 @@ export function parseAvailableBusHTML(html: string): AvailableBusData {
 
 	return {
 		currentMonth,
+		availableMonths,
 		availableSchedules,
 		totalAvailable: availableSchedules.length,
 	};
@@ -1,4 +1,5 @@
 import * as cheerio from "cheerio";
+import { UpstreamChangedError } from "../../errors";
 
 export interface UserProfileData {
 	userId?: string;
@@ -52,5 +53,9 @@ export function parseUserProfileHTML(html: string): UserProfileData {
 		}
 	}
 
+	if (!result.userId && !result.userName) {
+		throw new UpstreamChangedError("profile", "Student ID and name not found on profile page");
+	}
+
 	return result;
 }
@@ -1,4 +1,7 @@
 import * as cheerio from "cheerio";
+import { UpstreamChangedError } from "../../errors";
+import type { BusDestination } from "./stops";
+import { createBangkokDate, parseThaiDate, startOfBangkokDay } from "../../utilities/thai-date";
 
 export enum DayOfWeek {
 	SUNDAY = "วันอาทิตย์",
@@ -25,7 +28,7 @@ export interface ScheduleReservation {
 	};
 	destination: {
 		name: string;
-		type: "เวียงบัว" | "แม่ริม";
+		type: BusDestination;
 	};
 	departureDate: DayOfWeek;
 	departureTime: string;
@@ -61,8 +64,50 @@ export interface ParsedScheduleData {
 	reservations: ScheduleReservation[];
 }
 
+export interface ReservationFilter {
+	/** วันเดินทางตั้งแต่ (รวมวันนี้ นับวันตามเวลาประเทศไทย) */
+	from?: Date;
+	/** วันเดินทางถึง (รวมวันนี้ นับวันตามเวลาประเทศไทย) */
+	to?: Date;
+	destination?: ScheduleReservation["destination"]["type"];
+	confirmationStatus?: ConfirmationStatus | ConfirmationStatus[];
+	/** `true` เดินทางแล้ว, `false` ไม่ได้เดินทาง, `null` ยังไม่มีผลการเดินทาง */
+	traveled?: boolean | null;
+}
+
+/**
+ * กรองรายการจองตามช่วงวันที่ ปลายทาง สถานะการยืนยัน และสถานะการเดินทาง
+ *
+ * @example
+ * ```typescript
+ * const { reservations } = await busApi.getAllReservations();
+ * const pending = filterReservations(reservations, {
+ *   destination: 'แม่ริม',
+ *   confirmationStatus: ConfirmationStatus.PENDING,
+ * });
+ * ```
+ */
+export function filterReservations(reservations: ScheduleReservation[], filter: ReservationFilter = {}): ScheduleReservation[] {
+	const statuses = filter.confirmationStatus === undefined ? undefined : ([] as ConfirmationStatus[]).concat(filter.confirmationStatus);
+	const from = filter.from ? startOfBangkokDay(filter.from) : undefined;
+	const to = filter.to ? startOfBangkokDay(filter.to, 1) : undefined;
+
+	return reservations.filter((reservation) => {
+		if (from && reservation.date < from) return false;
+		if (to && reservation.date >= to) return false;
+		if (filter.destination && reservation.destination.type !== filter.destination) return false;
+		if (statuses && !statuses.includes(reservation.confirmation.status)) return false;
+		if (filter.traveled !== undefined && reservation.travelStatus.hasCompleted !== filter.traveled) return false;
+		return true;
+	});
+}
+
 export function parseScheduleHTML(html: string): ParsedScheduleData {
 	const $ = cheerio.load(html);
+	if ($("#alert-Top").length === 0) {
+		throw new UpstreamChangedError("schedule", "User header (#alert-Top) not found on schedule page");
+	}
+
 	const userName = $("#alert-Top h4").text().trim();
 	const totalText = $(".pagination .title span").text();
 	const totalReservations = parseInt(totalText) || 0;
@@ -82,6 +127,10 @@ export function parseScheduleHTML(html: string): ParsedScheduleData {
 
 	const reservations: ScheduleReservation[] = [];
 
+	if (totalReservations > 0 && $("table.table tbody tr").length === 0) {
+		throw new UpstreamChangedError("schedule", `Reservation table not found on schedule page (${totalReservations} reservations reported)`);
+	}
+
 	$("table.table tbody tr").each((_index: number, element) => {
 		const $row = $(element);
 		const $cells = $row.find("td");
@@ -141,39 +190,17 @@ export function parseScheduleHTML(html: string): ParsedScheduleData {
 		};
 		const dayOfWeek = dayMap[dayOfWeekText] || DayOfWeek.MONDAY;
 		const timeMatch = timePart?.match(/(\d+)\.(\d+)/);
-		const hours = timeMatch ? parseInt(timeMatch[1] || "0") : 0;
-		const minutes = timeMatch ? parseInt(timeMatch[2] || "0") : 0;
-		const departureTime = timeMatch ? `${String(hours).padStart(2, "0")}.${String(minutes).padStart(2, "0")}` : "00.00";
-		const thaiMonthMap: Record<string, number> = {
-			"ม.ค.": 0,
-			"ก.พ.": 1,
-			"มี.ค.": 2,
-			"เม.ย.": 3,
-			"พ.ค.": 4,
-			"มิ.ย.": 5,
-			"ก.ค.": 6,
-			"ส.ค.": 7,
-			"ก.ย.": 8,
-			"ต.ค.": 9,
-			"พ.ย.": 10,
-			"ธ.ค.": 11,
-		};
-
-		let fullDate = new Date();
-		const dateMatch = dateTextPart.trim().match(/(\d+)\s+(\S+)\s+(\d+)/);
-		if (dateMatch) {
-			const day = parseInt(dateMatch[1] || "1");
-			const thaiMonth = dateMatch[2] || "";
-			const buddhistYear = parseInt(dateMatch[3] || "68");
+		const calendarDay = parseThaiDate(dateTextPart);
 
-			const month = thaiMonthMap[thaiMonth] ?? 0;
-			const christianYear = buddhistYear + 2500 - 543;
-
-			fullDate = new Date(christianYear, month, day, hours, minutes, 0, 0);
-		} else {
-			fullDate.setHours(hours, minutes, 0, 0);
+		if (!timeMatch || !calendarDay) {
+			throw new UpstreamChangedError("schedule", `Cannot read departure date and time "${departureText}" of reservation ${$cells.eq(0).text().trim()}`);
 		}
 
+		const hours = parseInt(timeMatch[1] || "0");
+		const minutes = parseInt(timeMatch[2] || "0");
+		const departureTime = `${String(hours).padStart(2, "0")}.${String(minutes).padStart(2, "0")}`;
+		const fullDate = createBangkokDate(calendarDay.year, calendarDay.month, calendarDay.day, hours, minutes);
+
 		const confirmationCell = $cells.eq(4);
 		const isConfirmed = confirmationCell.find(".badge-success").length > 0 && confirmationCell.find(".badge-success i.fa-check").length > 0;
 
@@ -0,0 +1,176 @@
+import * as cheerio from "cheerio";
+import { UpstreamChangedError } from "../../errors";
+
+export type BusDestination = "แม่ริม" | "เวียงบัว";
+
+/** รหัสปลายทางที่ระบบใช้ (`scd_type`) 1 = แม่ริม, 2 = เวียงบัว */
+export type BusDestinationType = 1 | 2;
+
+export interface BusDestinationInfo {
+	type: BusDestinationType;
+	name: BusDestination;
+}
+
+export const BUS_DESTINATIONS: readonly BusDestinationInfo[] = [
+	{ type: 1, name: "แม่ริม" },
+	{ type: 2, name: "เวียงบัว" },
+];
+
+export interface BusStop {
+	/** ลำดับจุดจอดในเส้นทาง เริ่มจาก 1 */
+	order: number;
+	name: string;
+	/** เวลารถออกจากจุดจอดนี้ รูปแบบ `HH:mm` */
+	departureTimes: string[];
+}
+
+export interface BusRoute {
+	destinationType: BusDestinationType;
+	destination: BusDestination;
+	/** ชื่อเส้นทางตามที่แสดงบนหน้าเว็บ เช่น `"เวียงบัว - แม่ริม"` */
+	name: string;
+	/** ชื่อจุดจอดต้นทาง */
+	origin: string;
+	stops: BusStop[];
+	/** เวลารถออกจากต้นทางของเส้นทาง รูปแบบ `HH:mm` */
+	departureTimes: string[];
+}
+
+export interface BusStopCatalog {
+	routes: BusRoute[];
+	/** ชื่อจุดจอดทั้งหมดโดยไม่ซ้ำกัน เรียงตามลำดับที่พบ */
+	stops: string[];
+}
+
+export function isBusDestination(value: string): value is BusDestination {
+	return BUS_DESTINATIONS.some((destination) => destination.name === value);
+}
+
+export function isBusDestinationType(value: unknown): value is BusDestinationType {
+	return BUS_DESTINATIONS.some((destination) => destination.type === value);
+}
+
+/** ชื่อปลายทางจากรหัส `scd_type` คืน `undefined` หากไม่รู้จักรหัสนั้น */
+export function getBusDestinationName(type: number): BusDestination | undefined {
+	return BUS_DESTINATIONS.find((destination) => destination.type === type)?.name;
+}
+
+/**
+ * หารหัสปลายทางจากข้อความที่มีชื่อปลายทางอยู่ เช่น `"( ไปแม่ริม )"` หรือ `"เวียงบัว - แม่ริม"` (ใช้ชื่อที่อยู่ท้ายสุด)
+ *
+ * @example
+ * ```typescript
+ * getBusDestinationType('( ไปเวียงบัว )'); // Output: 2
+ * getBusDestinationType('เวียงบัว - แม่ริม'); // Output: 1
+ * ```
+ */
+export function getBusDestinationType(text: string): BusDestinationType | undefined {
+	let found: { type: BusDestinationType; index: number } | undefined;
+
+	for (const destination of BUS_DESTINATIONS) {
+		const index = text.lastIndexOf(destination.name);
+		if (index >= 0 && (!found || index > found.index)) {
+			found = { type: destination.type, index };
+		}
+	}
+
+	return found?.type;
+}
+
+function parseTimes(text: string): string[] {
+	return [...text.matchAll(/(\d{1,2})[.:](\d{2})/g)].map((match) => `${(match[1] ?? "0").padStart(2, "0")}:${match[2]}`);
+}
+
+/** ชื่อเส้นทางจาก `<caption>` หรือหัวข้อที่อยู่ก่อนตารางที่ใกล้ที่สุด */
+function findRouteName($table: ReturnType<cheerio.CheerioAPI>): string {
+	const caption = $table.find("caption").first().text().trim();
+	if (caption) return caption;
+
+	for (let $node = $table; $node.length > 0 && !$node.is("body"); $node = $node.parent()) {
+		const heading = $node.prevAll("h1, h2, h3, h4, h5, h6, .card-title, .card-header").first().text().trim();
+		if (heading) return heading;
+	}
+
+	return "";
+}
+
+/**
+ * อ่านหน้า `/bus-stops` เป็นรายการเส้นทาง จุดจอด และเวลารถออก
+ * ไม่อิง class ของหน้าเว็บ แต่หาตารางที่แต่ละแถวมีชื่อจุดจอดและเวลา ชื่อเส้นทางมาจากหัวข้อก่อนตาราง
+ * และหาปลายทางจากชื่อเส้นทาง (หรือจุดจอดสุดท้าย) โยน `UpstreamChangedError` หากไม่พบตารางเส้นทางเลย
+ *
+ * @example
+ * ```typescript
+ * const response = await busApi.getBusStops<string>();
+ * const catalog = parseBusStopsHTML(response.data);
+ * console.log(catalog.routes.map((route) => `${route.name} ${route.departureTimes.join(', ')}`));
+ * // Output: ['เวียงบัว - แม่ริม 07:30', 'แม่ริม - เวียงบัว 16:30']
+ * ```
+ */
+export function parseBusStopsHTML(html: string): BusStopCatalog {
+	const $ = cheerio.load(html);
+	const routes: BusRoute[] = [];
+
+	$("table").each((_index, table) => {
+		if ($(table).find("table").length > 0) return;
+
+		const headers = $(table)
+			.find("tr")
+			.first()
+			.find("th, td")
+			.map((_cellIndex, cell) => $(cell).text().trim())
+			.get();
+		const hasHeader = headers.some((header) => /จุด|ป้าย|สถานที่|เวลา|ลำดับ/.test(header)) && !headers.some((header) => parseTimes(header).length > 0);
+		const nameColumn = hasHeader ? headers.findIndex((header) => /จุด|ป้าย|สถานที่/.test(header)) : -1;
+		const orderColumn = hasHeader ? headers.findIndex((header) => /ลำดับ|^#$|^ที่$/.test(header)) : -1;
+		const stops: BusStop[] = [];
+
+		$(table)
+			.find("tr")
+			.slice(hasHeader ? 1 : 0)
+			.each((rowIndex, row) => {
+				const cells = $(row)
+					.find("th, td")
+					.map((_cellIndex, cell) => $(cell).text().trim())
+					.get();
+				const nameIndex = nameColumn >= 0 ? nameColumn : cells.findIndex((cell) => cell && !/^\d+\.?$/.test(cell) && parseTimes(cell).length === 0);
+				const orderIndex = orderColumn >= 0 ? orderColumn : cells.findIndex((cell) => /^\d+\.?$/.test(cell));
+				const name = cells[nameIndex];
+				const departureTimes = cells.filter((_cell, index) => index !== nameIndex && index !== orderIndex).flatMap(parseTimes);
+
+				if (!name || departureTimes.length === 0) return;
+
+				stops.push({
+					order: parseInt(cells[orderIndex] ?? "") || rowIndex + 1,
+					name,
+					departureTimes,
+				});
+			});
+
+		if (stops.length === 0) return;
+
+		const name = findRouteName($(table)) || stops.map((stop) => stop.name).join(" - ");
+		const destinationType = getBusDestinationType(name) ?? getBusDestinationType(stops[stops.length - 1]?.name ?? "");
+		const destination = destinationType ? getBusDestinationName(destinationType) : undefined;
+
+		if (!destinationType || !destination) return;
+
+		routes.push({
+			destinationType,
+			destination,
+			name,
+			origin: stops[0]?.name ?? "",
+			stops,
+			departureTimes: stops[0]?.departureTimes ?? [],
+		});
+	});
+
+	if (routes.length === 0) {
+		throw new UpstreamChangedError("bus-stops", "No route table with stop names and departure times found on bus stops page");
+	}
+
+	return {
+		routes,
+		stops: [...new Set(routes.flatMap((route) => route.stops.map((stop) => stop.name)))],
+	};
+}
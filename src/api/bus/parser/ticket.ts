@@ -1,9 +1,12 @@
 import * as cheerio from "cheerio";
+import { UpstreamChangedError } from "../../errors";
+import type { ScheduleReservation } from "./schedule";
+import type { BusDestination } from "./stops";
 
 export interface TicketInfo {
 	destination: {
 		name: string;
-		type: "เวียงบัว" | "แม่ริม";
+		type: BusDestination;
 	};
 	schedule: {
 		day: string;
@@ -13,6 +16,8 @@ export interface TicketInfo {
 	};
 	qrCode: {
 		imageUrl: string;
+		/** ข้อมูลที่เข้ารหัสไว้ใน QR Code อ่านจากพารามิเตอร์ `data` ของ `imageUrl` */
+		payload?: TicketQRPayload;
 	};
 	student: {
 		studentId: string;
@@ -20,11 +25,83 @@ export interface TicketInfo {
 	};
 }
 
+export interface ReservationTicket {
+	reservation: ScheduleReservation;
+	ticket: TicketInfo;
+}
+
+export interface UpcomingTicketOptions {
+	/** เฉพาะตั๋วของวันนี้ (ตามเวลาประเทศไทย) */
+	todayOnly?: boolean;
+	now?: Date;
+}
+
+/**
+ * path ของหน้าตั๋ว (`showticketUrl`) จากรหัสตั๋วใน `ScheduleReservation.ticket.id`
+ *
+ * @example
+ * ```typescript
+ * getShowTicketUrl(5004); // Output: '/users/schedule/showticket/5004'
+ * ```
+ */
+export function getShowTicketUrl(ticketId: number): string {
+	return `/users/schedule/showticket/${ticketId}`;
+}
+
+export interface TicketQRPayload {
+	/** ข้อความดิบใน QR Code เช่น `"5004:||:66143000:||:2025-11-15"` */
+	raw: string;
+	ticketId?: number;
+	studentId?: string;
+	/** วันที่ของรอบรถรูปแบบ `YYYY-MM-DD` */
+	scheduleDate?: string;
+}
+
+/**
+ * อ่านข้อมูลใน QR Code ของตั๋วจาก URL รูป (`/qrcode/generate?data=...`) หรือจากข้อความดิบโดยตรง
+ * หากต้องการอ่านจากตัวรูป PNG ให้ใช้ `decodeTicketQRImage`
+ *
+ * @example
+ * ```typescript
+ * decodeTicketQRPayload('/qrcode/generate?data=5004%3A%7C%7C%3A66143000%3A%7C%7C%3A2025-11-15');
+ * // Output: { raw: '5004:||:66143000:||:2025-11-15', ticketId: 5004, studentId: '66143000', scheduleDate: '2025-11-15' }
+ * ```
+ */
+export function decodeTicketQRPayload(source: string): TicketQRPayload | undefined {
+	let raw = source.trim();
+
+	if (!raw.includes(":||:")) {
+		try {
+			raw = new URL(raw, "http://localhost").searchParams.get("data")?.trim() ?? "";
+		} catch {
+			return undefined;
+		}
+	}
+
+	if (!raw) {
+		return undefined;
+	}
+
+	const [ticketIdText, studentId, scheduleDate] = raw.split(":||:").map((part) => part.trim());
+	const ticketId = ticketIdText && /^\d+$/.test(ticketIdText) ? parseInt(ticketIdText) : undefined;
+
+	return {
+		raw,
+		ticketId,
+		studentId: studentId || undefined,
+		scheduleDate: scheduleDate && /^\d{4}-\d{2}-\d{2}/.test(scheduleDate) ? scheduleDate.slice(0, 10) : undefined,
+	};
+}
+
 export function parseTicketHTML(html: string): TicketInfo {
 	const $ = cheerio.load(html);
 	const destinationText = $("h1:contains('ปลายทาง')").find("span.text-info").text().trim();
 	const destinationType = destinationText as TicketInfo["destination"]["type"];
 	const scheduleText = $("h1:contains('รอบ')").find("span.text-info").text().trim();
+	if (!destinationText || !scheduleText) {
+		throw new UpstreamChangedError("ticket", "Destination or schedule heading not found on ticket page");
+	}
+
 	const qrImageSrc = $("img[src*='qrcode']").attr("src") || "";
 	const studentInfoText = $(".col-sm-8.text-left span").first().html() || "";
 	const studentIdMatch = studentInfoText.match(/รหัส นศ\. : (\d+)/);
@@ -49,6 +126,7 @@ export function parseTicketHTML(html: string): TicketInfo {
 		},
 		qrCode: {
 			imageUrl: qrImageSrc,
+			payload: qrImageSrc ? decodeTicketQRPayload(qrImageSrc) : undefined,
 		},
 		student: {
 			studentId,
@@ -0,0 +1,123 @@
+import type { ScheduleMetadata } from "../../types/schedule";
+import { createBangkokDate, formatBangkokMonth, getBangkokDateParts } from "../utilities/thai-date";
+import { BUS_DESTINATIONS } from "./parser/stops";
+import { ConfirmationStatus, type ParsedScheduleData, type ScheduleReservation } from "./parser/schedule";
+
+export interface MonthlyTrips {
+	/** เดือนรูปแบบ `YYYY-MM` (ค.ศ.) */
+	month: string;
+	total: number;
+	confirmed: number;
+	traveled: number;
+	notTraveled: number;
+}
+
+export interface DepartureTimeUsage {
+	departureTime: string;
+	destination: ScheduleReservation["destination"]["type"];
+	count: number;
+}
+
+export interface TravelStatistics extends ScheduleMetadata {
+	byDestination: Record<ScheduleReservation["destination"]["type"], number>;
+	byMonth: MonthlyTrips[];
+	/** สัดส่วนการจองที่ยืนยันแล้วแต่ไม่ได้เดินทาง เทียบกับการจองที่ยืนยันแล้วและมีผลการเดินทางแล้ว (0-1) */
+	noShowRate: number;
+	/** เวลาออกรถที่ใช้บ่อยที่สุด นับจากการจองที่ยืนยันแล้ว */
+	topDepartureTimes: DepartureTimeUsage[];
+}
+
+export interface TravelStatisticsOptions {
+	now?: Date;
+	/** จำนวนเวลาออกรถที่ต้องการใน `topDepartureTimes` (ค่าเริ่มต้น 3) */
+	topDepartureTimes?: number;
+}
+
+/** วันเวลาออกรถของการจอง (วันที่จาก `date` รวมกับ `departureTime` รูปแบบ `HH.mm`) */
+function getDepartureDateTime(reservation: ScheduleReservation): Date {
+	const { year, month, day } = getBangkokDateParts(reservation.date);
+	const [hours = 0, minutes = 0] = reservation.departureTime.split(/[.:]/).map((part) => parseInt(part) || 0);
+	return createBangkokDate(year, month, day, hours, minutes);
+}
+
+/**
+ * สรุปสถิติการเดินทางจากรายการจองทั้งหมด
+ *
+ * @example
+ * ```typescript
+ * const schedule = await busApi.getAllReservations();
+ * const stats = calculateTravelStatistics(schedule);
+ * console.log(stats.traveled, stats.notTraveled, stats.noShowRate);
+ * // Output: 1 1 0.5
+ * console.log(stats.topDepartureTimes);
+ * // Output: [{ departureTime: '07.30', destination: 'แม่ริม', count: 2 }, ...]
+ * ```
+ */
+export function calculateTravelStatistics(schedule: ParsedScheduleData | ScheduleReservation[], options: TravelStatisticsOptions = {}): TravelStatistics {
+	const reservations = Array.isArray(schedule) ? schedule : schedule.reservations;
+	const now = options.now ?? new Date();
+	const months = new Map<string, MonthlyTrips>();
+	const departureTimes = new Map<string, DepartureTimeUsage>();
+	const byDestination = Object.fromEntries(BUS_DESTINATIONS.map((destination) => [destination.name, 0])) as TravelStatistics["byDestination"];
+
+	let hasQRCode = 0;
+	let alreadyDeparted = 0;
+	let confirmed = 0;
+	let traveled = 0;
+	let notTraveled = 0;
+	let evaluated = 0;
+	let noShow = 0;
+
+	for (const reservation of reservations) {
+		const isConfirmed = reservation.confirmation.status === ConfirmationStatus.CONFIRMED;
+		const key = formatBangkokMonth(reservation.date);
+		const month = months.get(key) ?? { month: key, total: 0, confirmed: 0, traveled: 0, notTraveled: 0 };
+		months.set(key, month);
+
+		month.total++;
+		if (reservation.destination.type in byDestination) {
+			byDestination[reservation.destination.type]++;
+		}
+
+		if (reservation.ticket.hasQRCode) hasQRCode++;
+		if (getDepartureDateTime(reservation) <= now) alreadyDeparted++;
+
+		if (isConfirmed) {
+			confirmed++;
+			month.confirmed++;
+
+			const timeKey = `${reservation.destination.type}:${reservation.departureTime}`;
+			const usage = departureTimes.get(timeKey) ?? { departureTime: reservation.departureTime, destination: reservation.destination.type, count: 0 };
+			usage.count++;
+			departureTimes.set(timeKey, usage);
+
+			if (reservation.travelStatus.hasCompleted !== null) evaluated++;
+			if (reservation.travelStatus.hasCompleted === false) noShow++;
+		}
+
+		if (reservation.travelStatus.hasCompleted === true) {
+			traveled++;
+			month.traveled++;
+		} else if (reservation.travelStatus.hasCompleted === false) {
+			notTraveled++;
+			month.notTraveled++;
+		}
+	}
+
+	return {
+		totalItems: reservations.length,
+		currentPage: 1,
+		hasQRCode,
+		alreadyDeparted,
+		confirmed,
+		unconfirmed: reservations.length - confirmed,
+		traveled,
+		notTraveled,
+		byDestination,
+		byMonth: [...months.values()].sort((a, b) => a.month.localeCompare(b.month)),
+		noShowRate: evaluated > 0 ? parseFloat((noShow / evaluated).toFixed(2)) : 0,
+		topDepartureTimes: [...departureTimes.values()]
+			.sort((a, b) => b.count - a.count || a.departureTime.localeCompare(b.departureTime))
+			.slice(0, options.topDepartureTimes ?? 3),
+	};
+}
@@ -0,0 +1,88 @@
+import { createBangkokDate, parseThaiDate } from "../utilities/thai-date";
+import { decodeTicketQRPayload, type TicketInfo, type TicketQRPayload } from "./parser/ticket";
+import { decodeTicketQRImage } from "./ticket-qr";
+
+export const OFFLINE_TICKET_BUNDLE_VERSION = 1;
+
+export interface OfflineTicketBundle {
+	version: typeof OFFLINE_TICKET_BUNDLE_VERSION;
+	/** เวลาที่สร้าง bundle (ISO 8601) */
+	generatedAt: string;
+	ticketId?: number;
+	/** เวลาออกรถ (ISO 8601) หากอ่านวันที่และเวลาจากตั๋วได้ */
+	departureAt?: string;
+	ticket: TicketInfo;
+	payload?: TicketQRPayload;
+	qrCode: {
+		mimeType: string;
+		base64: string;
+		/** `data:` URI ใช้แสดงรูปได้ทันทีโดยไม่ต้องต่อเครือข่าย */
+		dataUri: string;
+	};
+}
+
+export interface OfflineTicketBundleOptions {
+	/** ใช้เมื่อ QR Code ไม่มีรหัสตั๋ว */
+	ticketId?: number;
+	/** ค่าเริ่มต้น `"image/png"` */
+	mimeType?: string;
+	now?: Date;
+}
+
+/** ใช้ `btoa` แทน `Buffer` เพื่อให้ใช้ได้ทั้งใน Node, browser และแอปมือถือ */
+function toBase64(bytes: Uint8Array): string {
+	let binary = "";
+
+	for (let index = 0; index < bytes.length; index += 0x8000) {
+		binary += String.fromCharCode(...bytes.subarray(index, index + 0x8000));
+	}
+
+	return btoa(binary);
+}
+
+function parseDepartureAt(ticket: TicketInfo): string | undefined {
+	const date = parseThaiDate(ticket.schedule.date);
+	const time = ticket.schedule.time.match(/(\d{1,2})[.:](\d{2})/);
+
+	if (!date || !time?.[1] || !time[2]) {
+		return undefined;
+	}
+
+	return createBangkokDate(date.year, date.month, date.day, parseInt(time[1]), parseInt(time[2])).toISOString();
+}
+
+/**
+ * รวมข้อมูลตั๋ว ข้อมูลใน QR Code และรูป QR (base64) เป็น JSON ชิ้นเดียว สำหรับแอปที่ต้องแสดงตั๋วโดยไม่มีเครือข่าย
+ * ข้อมูลใน QR Code ถอดรหัสจากตัวรูป หากอ่านรูปไม่ได้จะใช้พารามิเตอร์ `data` ของ URL รูปแทน
+ *
+ * @example
+ * ```typescript
+ * const ticketUrl = '/users/schedule/showticket/5004';
+ * const ticket = await busApi.getTicketInfo(ticketUrl);
+ * const image = await busApi.getTicketQRCodeImage(ticketUrl);
+ *
+ * const bundle = createOfflineTicketBundle(ticket, image.data);
+ * console.log(bundle.ticketId, bundle.departureAt, bundle.qrCode.dataUri.slice(0, 22));
+ * // Output: 5004 2025-11-15T00:30:00.000Z data:image/png;base64,
+ * ```
+ */
+export function createOfflineTicketBundle(ticket: TicketInfo, image: Uint8Array | ArrayBuffer, options: OfflineTicketBundleOptions = {}): OfflineTicketBundle {
+	const bytes = image instanceof Uint8Array ? image : new Uint8Array(image);
+	const payload = decodeTicketQRImage(bytes) ?? ticket.qrCode.payload ?? (ticket.qrCode.imageUrl ? decodeTicketQRPayload(ticket.qrCode.imageUrl) : undefined);
+	const mimeType = options.mimeType ?? "image/png";
+	const base64 = toBase64(bytes);
+
+	return {
+		version: OFFLINE_TICKET_BUNDLE_VERSION,
+		generatedAt: (options.now ?? new Date()).toISOString(),
+		ticketId: payload?.ticketId ?? options.ticketId,
+		departureAt: parseDepartureAt(ticket),
+		ticket,
+		payload,
+		qrCode: {
+			mimeType,
+			base64,
+			dataUri: `data:${mimeType};base64,${base64}`,
+		},
+	};
+}
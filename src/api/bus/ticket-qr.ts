@@ -0,0 +1,69 @@
+import { convertIndexedToRgb, decode, hasPngSignature, type DecodedPng } from "fast-png";
+import jsQR from "jsqr";
+import { decodeTicketQRPayload, type TicketQRPayload } from "./parser/ticket";
+
+/** แปลงรูป PNG ทุกแบบ (grayscale, RGB, palette, มี alpha, 1-16 บิต) เป็น RGBA 8 บิตบนพื้นขาวตามที่ `jsQR` ต้องการ */
+function toRgba(png: DecodedPng): Uint8ClampedArray {
+	const { width, height } = png;
+	const indexed = png.palette ? convertIndexedToRgb(png) : undefined;
+	const channels = indexed ? indexed.length / (width * height) : png.channels;
+	const depth = indexed ? 8 : png.depth;
+	const data = indexed ?? png.data;
+	const max = 2 ** depth - 1;
+	const rowBytes = Math.ceil((width * channels * depth) / 8);
+	const rgba = new Uint8ClampedArray(width * height * 4);
+
+	const sample = (x: number, y: number, channel: number): number => {
+		if (depth >= 8) {
+			return ((data[(y * width + x) * channels + channel] ?? 0) * 255) / max;
+		}
+
+		const bit = (x * channels + channel) * depth;
+		const byte = data[y * rowBytes + (bit >> 3)] ?? 0;
+		return (((byte >> (8 - depth - (bit & 7))) & max) * 255) / max;
+	};
+
+	for (let y = 0; y < height; y++) {
+		for (let x = 0; x < width; x++) {
+			const gray = channels <= 2;
+			const alpha = channels === 2 || channels === 4 ? sample(x, y, channels - 1) / 255 : 1;
+			const offset = (y * width + x) * 4;
+
+			for (let channel = 0; channel < 3; channel++) {
+				rgba[offset + channel] = sample(x, y, gray ? 0 : channel) * alpha + 255 * (1 - alpha);
+			}
+			rgba[offset + 3] = 255;
+		}
+	}
+
+	return rgba;
+}
+
+/**
+ * ถอดรหัสรูป QR Code ของตั๋ว (PNG) แล้วอ่านข้อมูลในนั้น คืน `undefined` หากไม่ใช่ PNG หรือหา QR Code ในรูปไม่พบ
+ * ใช้ JavaScript ล้วน จึงใช้ได้ทั้งใน Node, browser และแอปมือถือ
+ *
+ * @example
+ * ```typescript
+ * const image = await busApi.getTicketQRCodeImage('/users/schedule/showticket/5004');
+ * const payload = decodeTicketQRImage(image.data);
+ * console.log(payload);
+ * // Output: { raw: '5004:||:66143000:||:2025-11-15', ticketId: 5004, studentId: '66143000', scheduleDate: '2025-11-15' }
+ * ```
+ */
+export function decodeTicketQRImage(image: Uint8Array | ArrayBuffer): TicketQRPayload | undefined {
+	const bytes = image instanceof Uint8Array ? image : new Uint8Array(image);
+	if (!hasPngSignature(bytes)) {
+		return undefined;
+	}
+
+	let png: DecodedPng;
+	try {
+		png = decode(bytes);
+	} catch {
+		return undefined;
+	}
+
+	const code = jsQR(toRgba(png), png.width, png.height);
+	return code?.data ? decodeTicketQRPayload(code.data) : undefined;
+}
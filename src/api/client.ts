@@ -10,11 +10,13 @@ export class ApiClient<T extends ApiServer = ApiServer.BUS> {
 	private client: AxiosInstance;
 	private serverType: T;
 	private apiInstance: GetApiMethods<T> | null = null;
+	private sessionKey?: string;
 
-	constructor(serverType: T, config?: Omit<ApiClientConfig, "server">) {
+	constructor(serverType: T, config?: ApiClientConfig) {
 		this.serverType = serverType;
+		this.sessionKey = config?.sessionKey;
 		this.client = axios.create({
-			baseURL: serverType,
+			baseURL: config?.server || serverType,
 			timeout: config?.timeout || 30000,
 			headers: {
 				"Content-Type": "application/json",
@@ -54,10 +56,10 @@ export class ApiClient<T extends ApiServer = ApiServer.BUS> {
 		}
 
 		if (this.serverType === ApiServer.BUS) {
-			const cmruBusApi = new Bus(this.client);
+			const cmruBusApi = new Bus(this.client, this.sessionKey);
 			this.apiInstance = cmruBusApi as unknown as GetApiMethods<T>;
 		} else if (this.serverType === ApiServer.REG) {
-			const regApi = new Reg(this.client);
+			const regApi = new Reg(this.client, this.sessionKey);
 			this.apiInstance = regApi as unknown as GetApiMethods<T>;
 		} else {
 			throw new Error(`Unknown server type: ${this.serverType}`);
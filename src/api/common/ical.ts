@@ -0,0 +1,206 @@
+import { InvalidArgumentError } from "../errors";
+import type { ParsedScheduleData, ScheduleReservation } from "../bus/parser/schedule";
+import { parseScheduleSlots, type TimetableData, type TimetableSlot } from "../reg/parser/timetable";
+import { BANGKOK_TIMEZONE, getBangkokDateParts } from "../utilities/thai-date";
+
+const PRODUCT_ID = "-//CMRU-Computer-Science-66//CMRU API//TH";
+
+export interface TimetableCalendarOptions {
+	/** วันเปิดภาคเรียน (`Date` หรือ `"YYYY-MM-DD"` ตามเวลาประเทศไทย) */
+	semesterStart: Date | string;
+	/** วันสุดท้ายของภาคเรียน (`Date` หรือ `"YYYY-MM-DD"` ตามเวลาประเทศไทย) */
+	semesterEnd: Date | string;
+	calendarName?: string;
+}
+
+export interface ReservationCalendarOptions {
+	/** ระยะเวลาของแต่ละ event เป็นนาที (ค่าเริ่มต้น 60) */
+	durationMinutes?: number;
+	calendarName?: string;
+}
+
+interface CalendarDate {
+	year: number;
+	month: number;
+	day: number;
+}
+
+function pad(value: number, length: number = 2): string {
+	return String(value).padStart(length, "0");
+}
+
+function toCalendarDate(value: Date | string, argument: string): CalendarDate {
+	if (value instanceof Date) {
+		return getBangkokDateParts(value);
+	}
+
+	const match = value.match(/^(\d{4})-(\d{2})-(\d{2})/);
+	if (!match?.[1] || !match[2] || !match[3]) {
+		throw new InvalidArgumentError(argument, `Invalid ${argument}: ${value}. Expected YYYY-MM-DD`);
+	}
+
+	return { year: parseInt(match[1]), month: parseInt(match[2]), day: parseInt(match[3]) };
+}
+
+function addDays(date: CalendarDate, days: number): CalendarDate {
+	const result = new Date(Date.UTC(date.year, date.month - 1, date.day + days));
+	return { year: result.getUTCFullYear(), month: result.getUTCMonth() + 1, day: result.getUTCDate() };
+}
+
+function weekdayOf(date: CalendarDate): number {
+	return new Date(Date.UTC(date.year, date.month - 1, date.day)).getUTCDay();
+}
+
+function formatLocalDateTime(date: CalendarDate, time: string): string {
+	const [hours = "00", minutes = "00"] = time.split(":");
+	return `${date.year}${pad(date.month)}${pad(date.day)}T${pad(parseInt(hours))}${pad(parseInt(minutes))}00`;
+}
+
+function formatUtcDateTime(date: Date): string {
+	return `${date.getUTCFullYear()}${pad(date.getUTCMonth() + 1)}${pad(date.getUTCDate())}T${pad(date.getUTCHours())}${pad(date.getUTCMinutes())}${pad(date.getUTCSeconds())}Z`;
+}
+
+function escapeText(value: string): string {
+	return value.replace(/\\/g, "\\\\").replace(/;/g, "\\;").replace(/,/g, "\\,").replace(/\r?\n/g, "\\n");
+}
+
+function foldLine(line: string): string {
+	const encoder = new TextEncoder();
+	const parts: string[] = [];
+	let current = "";
+	let currentBytes = 0;
+
+	for (const char of line) {
+		const charBytes = encoder.encode(char).length;
+		const limit = parts.length === 0 ? 75 : 74;
+
+		if (currentBytes + charBytes > limit) {
+			parts.push(current);
+			current = "";
+			currentBytes = 0;
+		}
+
+		current += char;
+		currentBytes += charBytes;
+	}
+
+	parts.push(current);
+	return parts.join("\r\n ");
+}
+
+function buildCalendar(events: string[][], calendarName?: string): string {
+	const lines = [
+		"BEGIN:VCALENDAR",
+		"VERSION:2.0",
+		`PRODID:${PRODUCT_ID}`,
+		"CALSCALE:GREGORIAN",
+		"METHOD:PUBLISH",
+		...(calendarName ? [`X-WR-CALNAME:${escapeText(calendarName)}`] : []),
+		`X-WR-TIMEZONE:${BANGKOK_TIMEZONE}`,
+		"BEGIN:VTIMEZONE",
+		`TZID:${BANGKOK_TIMEZONE}`,
+		"BEGIN:STANDARD",
+		"DTSTART:19700101T000000",
+		"TZOFFSETFROM:+0700",
+		"TZOFFSETTO:+0700",
+		"TZNAME:ICT",
+		"END:STANDARD",
+		"END:VTIMEZONE",
+		...events.flat(),
+		"END:VCALENDAR",
+	];
+
+	return lines.map(foldLine).join("\r\n") + "\r\n";
+}
+
+function describeSlotType(slot: TimetableSlot): string {
+	if (slot.type === "lecture") return "ทฤษฎี";
+	if (slot.type === "lab") return "ปฏิบัติ";
+	return "";
+}
+
+/**
+ * แปลงตารางเรียนเป็นไฟล์ iCalendar (.ics) โดยแต่ละช่วงเวลาเรียนเป็น event ที่เกิดซ้ำทุกสัปดาห์ตลอดภาคเรียน
+ * โยน `InvalidArgumentError` หากวันเปิดหรือปิดภาคเรียนไม่อยู่ในรูปแบบ `YYYY-MM-DD`
+ *
+ * @example
+ * ```typescript
+ * const timetable = await regApi.getTimeTable('2567', '2');
+ * const ics = timetableToICS(timetable, { semesterStart: '2024-11-18', semesterEnd: '2025-03-21' });
+ * await Bun.write('timetable.ics', ics);
+ * ```
+ */
+export function timetableToICS(timetable: TimetableData, options: TimetableCalendarOptions): string {
+	const start = toCalendarDate(options.semesterStart, "semesterStart");
+	const end = toCalendarDate(options.semesterEnd, "semesterEnd");
+	const until = `${end.year}${pad(end.month)}${pad(end.day)}T165959Z`;
+	const dtstamp = formatUtcDateTime(new Date());
+	const termLabel = timetable.semester && timetable.academicYear ? `${timetable.semester}-${timetable.academicYear}` : "term";
+	const events: string[][] = [];
+
+	for (const course of timetable.courses) {
+		const slots = course.slots ?? parseScheduleSlots(course.schedule ?? "");
+
+		slots.forEach((slot, index) => {
+			const firstDate = addDays(start, (slot.day - weekdayOf(start) + 7) % 7);
+			const typeLabel = describeSlotType(slot);
+			const description = [course.section && `กลุ่ม ${course.section}`, course.instructor && `ผู้สอน ${course.instructor}`, typeLabel && `ประเภท ${typeLabel}`]
+				.filter(Boolean)
+				.join("\n");
+
+			events.push([
+				"BEGIN:VEVENT",
+				`UID:${escapeText(`${termLabel}-${course.courseCode.replace(/\s+/g, "")}-${course.section ?? "0"}-${index}`)}@cmru-api`,
+				`DTSTAMP:${dtstamp}`,
+				`DTSTART;TZID=${BANGKOK_TIMEZONE}:${formatLocalDateTime(firstDate, slot.startTime)}`,
+				`DTEND;TZID=${BANGKOK_TIMEZONE}:${formatLocalDateTime(firstDate, slot.endTime)}`,
+				`RRULE:FREQ=WEEKLY;UNTIL=${until}`,
+				`SUMMARY:${escapeText(`${course.courseCode} ${course.courseName}`)}`,
+				...(slot.room ? [`LOCATION:${escapeText(slot.room)}`] : []),
+				...(description ? [`DESCRIPTION:${escapeText(description)}`] : []),
+				"END:VEVENT",
+			]);
+		});
+	}
+
+	return buildCalendar(events, options.calendarName);
+}
+
+/**
+ * แปลงรายการจองรถบัสเป็นไฟล์ iCalendar (.ics) โดยแต่ละการจองเป็น event ครั้งเดียวตามเวลาออกรถ
+ *
+ * @example
+ * ```typescript
+ * const schedule = await busApi.getSchedule();
+ * const ics = reservationsToICS(schedule, { durationMinutes: 45 });
+ * await Bun.write('bus.ics', ics);
+ * ```
+ */
+export function reservationsToICS(schedule: ParsedScheduleData | ScheduleReservation[], options: ReservationCalendarOptions = {}): string {
+	const reservations = Array.isArray(schedule) ? schedule : schedule.reservations;
+	const durationMs = (options.durationMinutes ?? 60) * 60 * 1000;
+	const dtstamp = formatUtcDateTime(new Date());
+
+	const events = reservations.map((reservation) => {
+		const start = getBangkokDateParts(reservation.date);
+		const end = getBangkokDateParts(new Date(reservation.date.getTime() + durationMs));
+		const description = [`สถานะ ${reservation.confirmation.status}`, reservation.ticket.id ? `ตั๋ว ${reservation.ticket.id}` : "", reservation.travelStatus.status ?? ""]
+			.filter(Boolean)
+			.join("\n");
+
+		return [
+			"BEGIN:VEVENT",
+			`UID:bus-${reservation.id}@cmru-api`,
+			`DTSTAMP:${dtstamp}`,
+			`DTSTART;TZID=${BANGKOK_TIMEZONE}:${formatLocalDateTime(start, `${start.hours}:${start.minutes}`)}`,
+			`DTEND;TZID=${BANGKOK_TIMEZONE}:${formatLocalDateTime(end, `${end.hours}:${end.minutes}`)}`,
+			`SUMMARY:${escapeText(`รถบัส ${reservation.departureTime} → ${reservation.destination.name}`)}`,
+			`LOCATION:${escapeText(reservation.destination.name)}`,
+			`DESCRIPTION:${escapeText(description)}`,
+			`STATUS:${reservation.confirmation.isConfirmed ? "CONFIRMED" : "TENTATIVE"}`,
+			"END:VEVENT",
+		];
+	});
+
+	return buildCalendar(events, options.calendarName);
+}
@@ -0,0 +1,198 @@
+import type { SessionType } from "./manager/session-manager";
+
+export type CmruErrorCode =
+	| "NOT_LOGGED_IN"
+	| "INVALID_CREDENTIALS"
+	| "LOGIN_BLOCKED"
+	| "LOGIN_ATTEMPTS_EXCEEDED"
+	| "SESSION_EXPIRED"
+	| "UPSTREAM_CHANGED"
+	| "UPSTREAM_SERVER_ERROR"
+	| "UNEXPECTED_RESPONSE"
+	| "BOOKING_CONFIRMATION_FAILED"
+	| "PREREQUISITE_CYCLE"
+	| "INVALID_ARGUMENT"
+	| "UNKNOWN";
+
+/**
+ * ข้อผิดพลาดพื้นฐานของไลบรารี ใช้ตรวจสอบด้วย `instanceof` หรือ `code`
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await busApi.getSchedule();
+ * } catch (error) {
+ *   if (error instanceof SessionExpiredError) {
+ *     await busApi.login(credentials);
+ *   } else if (error instanceof CmruApiError) {
+ *     console.log(error.code);
+ *   }
+ * }
+ * ```
+ */
+export class CmruApiError extends Error {
+	constructor(
+		message: string,
+		public readonly code: CmruErrorCode = "UNKNOWN",
+		options?: ErrorOptions,
+	) {
+		super(message, options);
+		this.name = "CmruApiError";
+	}
+}
+
+/**
+ * ยังไม่ได้เข้าสู่ระบบ หรือไม่มี cookies/credentials สำหรับเรียกใช้งาน
+ */
+export class NotLoggedInError extends CmruApiError {
+	constructor(
+		public readonly server: SessionType,
+		message: string = "Not logged in. Please call login() first.",
+	) {
+		super(message, "NOT_LOGGED_IN");
+		this.name = "NotLoggedInError";
+	}
+}
+
+/**
+ * รหัสผู้ใช้หรือรหัสผ่านไม่ถูกต้อง
+ */
+export class InvalidCredentialsError extends CmruApiError {
+	constructor(
+		public readonly server: SessionType,
+		public readonly username: string,
+		message: string = "Login failed: Invalid username or password",
+	) {
+		super(message, "INVALID_CREDENTIALS");
+		this.name = "InvalidCredentialsError";
+	}
+}
+
+/**
+ * ระบบรถบัสปฏิเสธการเข้าสู่ระบบ (รหัสตอบกลับ 5 หรือ 8 จาก `/user/userloginchk`)
+ */
+export class LoginBlockedError extends CmruApiError {
+	constructor(
+		public readonly responseCode: 5 | 8,
+		public readonly reason: string,
+	) {
+		super(`Login blocked (code ${responseCode}): ${reason}`, "LOGIN_BLOCKED");
+		this.name = "LoginBlockedError";
+	}
+}
+
+/**
+ * ระบบทะเบียนระงับการเข้าสู่ระบบชั่วคราวเนื่องจากใส่รหัสผิดเกินจำนวนครั้งที่กำหนด
+ */
+export class LoginAttemptsExceededError extends CmruApiError {
+	constructor(
+		public readonly username: string,
+		message: string,
+	) {
+		super(message, "LOGIN_ATTEMPTS_EXCEEDED");
+		this.name = "LoginAttemptsExceededError";
+	}
+}
+
+/**
+ * session หมดอายุ ต้องเข้าสู่ระบบใหม่
+ */
+export class SessionExpiredError extends CmruApiError {
+	constructor(
+		public readonly server: SessionType,
+		message: string = "Session expired. Please login again.",
+	) {
+		super(message, "SESSION_EXPIRED");
+		this.name = "SessionExpiredError";
+	}
+}
+
+/**
+ * โครงสร้าง HTML ของหน้าเว็บต้นทางเปลี่ยนไปจนไม่สามารถอ่านข้อมูลที่ต้องการได้
+ */
+export class UpstreamChangedError extends CmruApiError {
+	constructor(
+		public readonly page: string,
+		message: string,
+	) {
+		super(message, "UPSTREAM_CHANGED");
+		this.name = "UpstreamChangedError";
+	}
+}
+
+/**
+ * เซิร์ฟเวอร์ต้นทางตอบกลับด้วยสถานะ 5xx
+ */
+export class UpstreamServerError extends CmruApiError {
+	constructor(
+		public readonly status: number,
+		public readonly url?: string,
+	) {
+		super(`Upstream server error: ${status}${url ? ` (${url})` : ""}`, "UPSTREAM_SERVER_ERROR");
+		this.name = "UpstreamServerError";
+	}
+}
+
+/**
+ * เซิร์ฟเวอร์ต้นทางตอบกลับด้วยสถานะหรือเนื้อหาที่ไม่คาดคิด
+ */
+export class UnexpectedResponseError extends CmruApiError {
+	constructor(
+		message: string,
+		public readonly status?: number,
+		public readonly body?: string,
+	) {
+		super(message, "UNEXPECTED_RESPONSE");
+		this.name = "UnexpectedResponseError";
+	}
+}
+
+/**
+ * จองรถสำเร็จแล้ว แต่ยืนยันการจองอัตโนมัติ (`oneClick`) ไม่สำเร็จ การจองยังคงอยู่ในระบบและรอยืนยัน
+ * สาเหตุเดิมอยู่ใน `cause`
+ *
+ * @example
+ * ```typescript
+ * try {
+ *   await busApi.bookBus(1450, '2025-11-15', 1, undefined, true);
+ * } catch (error) {
+ *   if (error instanceof BookingConfirmationError) {
+ *     console.log('จองแล้วแต่ยังไม่ได้ยืนยัน', error.scheduleDate, error.cause);
+ *   }
+ * }
+ * ```
+ */
+export class BookingConfirmationError extends CmruApiError {
+	constructor(
+		public readonly scheduleId: number,
+		public readonly scheduleDate: string,
+		message: string,
+		cause?: unknown,
+	) {
+		super(message, "BOOKING_CONFIRMATION_FAILED", cause === undefined ? undefined : { cause });
+		this.name = "BookingConfirmationError";
+	}
+}
+
+/**
+ * วิชาบังคับก่อนในแผนการเรียนอ้างถึงกันเป็นวง จึงเรียงลำดับรายวิชาไม่ได้
+ */
+export class PrerequisiteCycleError extends CmruApiError {
+	constructor(public readonly cycle: string[]) {
+		super(`Prerequisite cycle detected: ${cycle.join(" → ")}`, "PREREQUISITE_CYCLE");
+		this.name = "PrerequisiteCycleError";
+	}
+}
+
+/**
+ * ค่าที่ส่งเข้าฟังก์ชันของไลบรารีไม่ถูกต้อง เช่น วันที่ผิดรูปแบบ
+ */
+export class InvalidArgumentError extends CmruApiError {
+	constructor(
+		public readonly argument: string,
+		message: string,
+	) {
+		super(message, "INVALID_ARGUMENT");
+		this.name = "InvalidArgumentError";
+	}
+}
@@ -1,20 +1,33 @@
 export * from "./client";
 export * from "./types";
 export * from "./interceptors";
+export * from "./errors";
 export * from "./bus.api";
 export * from "./reg.api";
 export * from "./bus/parser/available";
 export * from "./bus/parser/schedule";
 export * from "./bus/parser/ticket";
 export * from "./bus/parser/profile";
+export * from "./bus/parser/stops";
+export * from "./bus/confirmation-watcher";
+export * from "./bus/statistics";
+export * from "./bus/ticket-bundle";
+export * from "./bus/ticket-qr";
 export * from "./reg/parser/student";
 export * from "./reg/parser/timetable";
+export * from "./reg/parser/exam";
 export * from "./reg/parser/grade";
 export * from "./reg/parser/activity";
 export * from "./reg/parser/studyplan";
+export * from "./reg/gpa";
+export * from "./reg/graduation";
+export * from "./reg/prerequisite";
+export * from "./reg/activity-hours";
 export * from "./manager/session-manager";
 export * from "./manager/cookie-manager";
 export * from "./common/pagination";
+export * from "./common/ical";
+export * from "./utilities/thai-date";
 export * from "../config/servers";
 export * from "../types/common";
 export * from "../types/session";
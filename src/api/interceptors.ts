@@ -1,4 +1,5 @@
 import type { AxiosInstance, InternalAxiosRequestConfig, AxiosResponse, AxiosError } from "axios";
+import { UpstreamServerError } from "./errors";
 
 export function setupRequestInterceptor(client: AxiosInstance): void {
 	client.interceptors.request.use(
@@ -17,6 +18,10 @@ export function setupResponseInterceptor(client: AxiosInstance): void {
 			return response;
 		},
 		(error: AxiosError) => {
+			if (error.response && error.response.status >= 500) {
+				return Promise.reject(new UpstreamServerError(error.response.status, error.config?.url));
+			}
+
 			return Promise.reject(error);
 		},
 	);
@@ -1,3 +1,5 @@
+import { NotLoggedInError, SessionExpiredError } from "../errors";
+
 export interface SessionData {
 	cookies: string | string[];
 	username: string;
@@ -72,6 +74,12 @@ export class SessionManager {
 		}
 	}
 
+	public invalidateSession(): void {
+		if (this.sessionData) {
+			this.sessionData.lastValidated = 0;
+		}
+	}
+
 	public getCookies(): string | string[] | null {
 		return this.sessionData?.cookies || null;
 	}
@@ -135,7 +143,7 @@ export class SessionManager {
 		}
 
 		if (!this.config.autoRelogin) {
-			throw new Error("Session expired and auto re-login is disabled. Please login again.");
+			throw new SessionExpiredError(this.config.type, "Session expired and auto re-login is disabled. Please login again.");
 		}
 
 		if (!username || !password) {
@@ -144,7 +152,7 @@ export class SessionManager {
 				username = credentials.username;
 				password = credentials.password;
 			} else {
-				throw new Error("No credentials available for auto re-login");
+				throw new NotLoggedInError(this.config.type, "No credentials available for auto re-login");
 			}
 		}
 
@@ -231,7 +239,7 @@ export class SessionManager {
 	public static forRegApi(sessionKey: string = "reg_default"): SessionManager {
 		return SessionManager.getInstance(sessionKey, {
 			type: "reg",
-			autoRelogin: false,
+			autoRelogin: true,
 			validityDuration: 10 * 60 * 1000,
 		});
 	}
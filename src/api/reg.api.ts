@@ -2,13 +2,16 @@ import type { AxiosInstance, AxiosResponse } from "axios";
 import type { RegApi } from "./types";
 import type { SessionCredentials, SessionResponse } from "../types/session";
 import { SessionManager } from "./manager/session-manager";
-import { parseTimetable, type TimetableData } from "./reg/parser/timetable";
+import { parseTimetable, parseTimetableTerms, type TimetableData, type TimetableTerm } from "./reg/parser/timetable";
 import { parseStudentInfo, type StudentInfo } from "./reg/parser/student";
-import { parseGradeHTML, parseGradeHTMLWithPagination, type GradeData } from "./reg/parser/grade";
+import { parseExamSchedule, type ExamScheduleData } from "./reg/parser/exam";
+import { mergeGradeData, parseGradeHTML, parseGradeHTMLWithPagination, parseGradeTerms, type GradeData } from "./reg/parser/grade";
 import { parseActivityHTML, parseActivityHTMLWithPagination, type ActivityData } from "./reg/parser/activity";
+import { summarizeActivityHours, type ActivityProgress, type ActivityRequirementOptions } from "./reg/activity-hours";
 import { parseStudyPlanHTML, parseStudyPlanHTMLWithPagination, type StudyPlanData } from "./reg/parser/studyplan";
 import { generateRandomUserAgent } from "./utilities/user-agent";
 import { parseSetCookieHeader, formatCookies } from "./manager/cookie-manager";
+import { InvalidCredentialsError, LoginAttemptsExceededError, NotLoggedInError, SessionExpiredError, UnexpectedResponseError, type CmruApiError } from "./errors";
 
 /**
  * คลาสสำหรับเรียกใช้ API ของระบบทะเบียนนักศึกษา CMRU
@@ -47,6 +50,82 @@ export class Reg implements RegApi {
 		return this.sessionManager;
 	}
 
+	private isLoginResponse(response: AxiosResponse<string>): boolean {
+		if (response.status === 301 || response.status === 302) {
+			const location = String(response.headers["location"] || "");
+			return location.toLowerCase().includes("login.asp");
+		}
+
+		return typeof response.data === "string" && /NAME=BUILDKEY|action="?validate\.asp/i.test(response.data);
+	}
+
+	private async ensureAuthenticated(): Promise<void> {
+		await this.sessionManager.ensureLoggedIn(async () => {
+			const credentials = this.sessionManager.getCredentials();
+
+			if (!credentials) {
+				throw new NotLoggedInError("reg", "No credentials available for auto re-login");
+			}
+
+			if (!credentials.password) {
+				throw new SessionExpiredError("reg", "Session expired and no password is stored for auto re-login. Please login again.");
+			}
+
+			await this.login(credentials);
+			const cookies = this.sessionManager.getCookies();
+
+			if (!cookies) {
+				throw new UnexpectedResponseError("Login failed - no cookies received");
+			}
+
+			return { cookies };
+		});
+	}
+
+	private async fetchPage(path: string, params?: Record<string, string>): Promise<AxiosResponse<string>> {
+		await this.ensureAuthenticated();
+
+		let response = await this.requestPage(path, params);
+
+		if (this.isLoginResponse(response)) {
+			this.sessionManager.invalidateSession();
+			await this.ensureAuthenticated();
+			response = await this.requestPage(path, params);
+
+			if (this.isLoginResponse(response)) {
+				throw new SessionExpiredError("reg", "Session expired - received login page after re-login");
+			}
+		}
+
+		this.sessionManager.updateLastValidated();
+		return response;
+	}
+
+	private async requestPage(path: string, params?: Record<string, string>): Promise<AxiosResponse<string>> {
+		const cookies = this.sessionManager.getCookies();
+
+		if (!cookies) {
+			throw new NotLoggedInError("reg");
+		}
+
+		const response = await this.client.get(path, {
+			headers: {
+				Cookie: formatCookies(cookies),
+			},
+			params,
+			responseType: "arraybuffer",
+		});
+
+		if (response.data && response.data.byteLength > 0) {
+			const decoder = new TextDecoder("windows-874");
+			response.data = decoder.decode(response.data);
+		} else {
+			response.data = "";
+		}
+
+		return response as AxiosResponse<string>;
+	}
+
 	private async getBuildKeyAndCookies(): Promise<{ buildKey: string | null; initialCookies: string[] | null }> {
 		try {
 			const response = await this.client.get("/registrar/login.asp", {
@@ -68,6 +147,19 @@ export class Reg implements RegApi {
 		}
 	}
 
+	private detectLoginError(html: string, username: string): CmruApiError | null {
+		const attemptsMatch = html.match(/ไม่สามารถเข้าสู่ระบบได้เนื่องจากระบุรหัสผิดเกิน[^<]*/);
+		if (attemptsMatch) {
+			return new LoginAttemptsExceededError(username, attemptsMatch[0].trim());
+		}
+
+		if (html.includes("กรุณาป้อนรหัสประจำตัวและรหัสผ่านให้ถูกต้อง")) {
+			return new InvalidCredentialsError("reg", username, "กรุณาป้อนรหัสประจำตัวและรหัสผ่านให้ถูกต้อง");
+		}
+
+		return null;
+	}
+
 	private async getBuildKey(): Promise<string | null> {
 		const { buildKey } = await this.getBuildKeyAndCookies();
 		return buildKey;
@@ -128,6 +220,11 @@ export class Reg implements RegApi {
 		const decoder = new TextDecoder("windows-874");
 		response.data = decoder.decode(response.data);
 
+		const loginError = this.detectLoginError(response.data as string, credentials.username);
+		if (loginError) {
+			throw loginError;
+		}
+
 		const sessionCookies = parseSetCookieHeader(response);
 
 		let finalCookies: string[];
@@ -136,7 +233,7 @@ export class Reg implements RegApi {
 		} else if (initialCookies) {
 			finalCookies = initialCookies;
 		} else {
-			throw new Error("Failed to obtain session cookies from login");
+			throw new UnexpectedResponseError("Failed to obtain session cookies from login", response.status);
 		}
 
 		this.sessionManager.setSession(credentials.username, credentials.password, finalCookies);
@@ -150,6 +247,7 @@ export class Reg implements RegApi {
 	 * @example
 	 * ```typescript
 	 * const timetable = await regApi.getTimeTable();
+	 * const previousTerm = await regApi.getTimeTable('2567', '1');
 	 * console.log(timetable);
 	 * // Output: {
 	 * //   schedule: [
@@ -164,32 +262,92 @@ export class Reg implements RegApi {
 	 * // }
 	 * ```
 	 */
-	public async getTimeTable(): Promise<TimetableData> {
-		const response = await this.getTimeTableRaw();
-		return parseTimetable(response.data);
+	public async getTimeTable(academicYear?: string, semester?: string): Promise<TimetableData> {
+		const response = await this.getTimeTableRaw(academicYear, semester);
+		const timetable = parseTimetable(response.data);
+
+		if (academicYear && semester) {
+			timetable.academicYear = academicYear;
+			timetable.semester = semester;
+		}
+
+		return timetable;
 	}
 
-	public async getTimeTableRaw(): Promise<AxiosResponse<string>> {
-		const cookies = this.sessionManager.getCookies();
+	/**
+	 * ดึง HTML หน้าตารางเรียน หากระบุปีการศึกษาและภาคเรียนจะดึงเฉพาะภาคเรียนนั้น
+	 *
+	 * @example
+	 * ```typescript
+	 * const response = await regApi.getTimeTableRaw('2567', '2');
+	 * console.log(response.data); // HTML ตารางเรียนภาคเรียนที่ 2/2567
+	 * ```
+	 */
+	public async getTimeTableRaw(academicYear?: string, semester?: string): Promise<AxiosResponse<string>> {
+		const params = academicYear && semester ? { acadyear: academicYear, semester } : undefined;
+		return this.fetchPage("/registrar/time_table.asp", params);
+	}
 
-		if (!cookies) {
-			throw new Error("Not logged in. Please call login() first.");
-		}
+	/**
+	 * ดึงรายการปีการศึกษา/ภาคเรียนที่สามารถเลือกดูตารางเรียนได้ เฉพาะที่พบบนหน้าเว็บ
+	 * หากหน้าเว็บมีเฉพาะตัวเลือกปีการศึกษา รายการจะไม่มี `semester` และต้องระบุภาคเรียนเองเมื่อเรียก `getTimeTable`
+	 *
+	 * @example
+	 * ```typescript
+	 * const terms = await regApi.getTimeTableTerms();
+	 * console.log(terms);
+	 * // Output: [
+	 * //   { academicYear: '2567', semester: '1' },
+	 * //   { academicYear: '2567', semester: '2' }
+	 * // ]
+	 * ```
+	 */
+	public async getTimeTableTerms(): Promise<TimetableTerm[]> {
+		const response = await this.getTimeTableRaw();
+		return parseTimetableTerms(response.data);
+	}
 
-		const cookieHeader = formatCookies(cookies);
-		const response = await this.client.get("/registrar/time_table.asp", {
-			headers: {
-				Cookie: cookieHeader,
-			},
-			responseType: "arraybuffer",
-		});
+	/**
+	 * ดึงตารางสอบกลางภาคและปลายภาค หากไม่ระบุปีการศึกษาและภาคเรียนจะใช้ภาคเรียนปัจจุบัน
+	 *
+	 * @example
+	 * ```typescript
+	 * const examSchedule = await regApi.getExamSchedule('2567', '1');
+	 * console.log(examSchedule);
+	 * // Output: {
+	 * //   academicYear: '2567',
+	 * //   semester: '1',
+	 * //   exams: [
+	 * //     {
+	 * //       courseCode: 'COM 2101-65',
+	 * //       courseName: 'การเขียนโปรแกรมเชิงวัตถุ',
+	 * //       examType: 'midterm',
+	 * //       dateText: '14 ส.ค. 2567',
+	 * //       date: '2024-08-14',
+	 * //       startTime: '09:00',
+	 * //       endTime: '12:00',
+	 * //       room: 'SCI9-306',
+	 * //       seat: 'A12'
+	 * //     }
+	 * //   ]
+	 * // }
+	 * ```
+	 */
+	public async getExamSchedule(academicYear?: string, semester?: string): Promise<ExamScheduleData> {
+		const response = await this.getExamScheduleRaw(academicYear, semester);
+		const examSchedule = parseExamSchedule(response.data);
 
-		if (response.data) {
-			const decoder = new TextDecoder("windows-874");
-			response.data = decoder.decode(response.data);
+		if (academicYear && semester) {
+			examSchedule.academicYear = academicYear;
+			examSchedule.semester = semester;
 		}
 
-		return response as AxiosResponse<string>;
+		return examSchedule;
+	}
+
+	public async getExamScheduleRaw(academicYear?: string, semester?: string): Promise<AxiosResponse<string>> {
+		const params = academicYear && semester ? { acadyear: academicYear, semester } : undefined;
+		return this.fetchPage("/registrar/exam_list.asp", params);
 	}
 
 	/**
@@ -213,27 +371,7 @@ export class Reg implements RegApi {
 	}
 
 	public async getStudentInfoRaw(): Promise<AxiosResponse<string>> {
-		const cookies = this.sessionManager.getCookies();
-
-		if (!cookies) {
-			throw new Error("Not logged in. Please call login() first.");
-		}
-
-		const cookieHeader = formatCookies(cookies);
-
-		const response = await this.client.get("/registrar/student.asp", {
-			headers: {
-				Cookie: cookieHeader,
-			},
-			responseType: "arraybuffer",
-		});
-
-		if (response.data && response.data.byteLength > 0) {
-			const decoder = new TextDecoder("windows-874");
-			response.data = decoder.decode(response.data);
-		}
-
-		return response as AxiosResponse<string>;
+		return this.fetchPage("/registrar/student.asp");
 	}
 
 	/**
@@ -262,27 +400,18 @@ export class Reg implements RegApi {
 		return parseGradeHTML(response.data);
 	}
 
-	public async getGradesRaw(): Promise<AxiosResponse<string>> {
-		const cookies = this.sessionManager.getCookies();
-
-		if (!cookies) {
-			throw new Error("Not logged in. Please call login() first.");
-		}
-
-		const cookieHeader = formatCookies(cookies);
-		const response = await this.client.get("/registrar/grade.asp", {
-			headers: {
-				Cookie: cookieHeader,
-			},
-			responseType: "arraybuffer",
-		});
-
-		if (response.data) {
-			const decoder = new TextDecoder("windows-874");
-			response.data = decoder.decode(response.data);
-		}
-
-		return response as AxiosResponse<string>;
+	/**
+	 * ดึง HTML หน้าผลการเรียน หากระบุปีการศึกษาและภาคเรียนจะดึงเฉพาะภาคเรียนนั้น
+	 *
+	 * @example
+	 * ```typescript
+	 * const response = await regApi.getGradesRaw('2567', '1');
+	 * console.log(response.data); // HTML ผลการเรียนภาคเรียนที่ 1/2567
+	 * ```
+	 */
+	public async getGradesRaw(academicYear?: string, semester?: string): Promise<AxiosResponse<string>> {
+		const params = academicYear && semester ? { gradeacadyear: academicYear, gradesemester: semester } : undefined;
+		return this.fetchPage("/registrar/grade.asp", params);
 	}
 
 	/**
@@ -311,26 +440,7 @@ export class Reg implements RegApi {
 	}
 
 	public async getActivityRaw(): Promise<AxiosResponse<string>> {
-		const cookies = this.sessionManager.getCookies();
-
-		if (!cookies) {
-			throw new Error("Not logged in. Please call login() first.");
-		}
-
-		const cookieHeader = formatCookies(cookies);
-		const response = await this.client.get("/registrar/studentactivitycheck.asp", {
-			headers: {
-				Cookie: cookieHeader,
-			},
-			responseType: "arraybuffer",
-		});
-
-		if (response.data) {
-			const decoder = new TextDecoder("windows-874");
-			response.data = decoder.decode(response.data);
-		}
-
-		return response as AxiosResponse<string>;
+		return this.fetchPage("/registrar/studentactivitycheck.asp");
 	}
 
 	/**
@@ -365,26 +475,7 @@ export class Reg implements RegApi {
 	}
 
 	public async getStudyPlanRaw(): Promise<AxiosResponse<string>> {
-		const cookies = this.sessionManager.getCookies();
-
-		if (!cookies) {
-			throw new Error("Not logged in. Please call login() first.");
-		}
-
-		const cookieHeader = formatCookies(cookies);
-		const response = await this.client.get("/registrar/Student_Studyplan.asp", {
-			headers: {
-				Cookie: cookieHeader,
-			},
-			responseType: "arraybuffer",
-		});
-
-		if (response.data) {
-			const decoder = new TextDecoder("windows-874");
-			response.data = decoder.decode(response.data);
-		}
-
-		return response as AxiosResponse<string>;
+		return this.fetchPage("/registrar/Student_Studyplan.asp");
 	}
 
 	/**
@@ -451,17 +542,36 @@ export class Reg implements RegApi {
 	 * ```typescript
 	 * const completeGrades = await regApi.getCompleteGrades();
 	 * console.log(completeGrades);
-	 * // Output: { records: [...ทุกเทอม...], summary: { gpa: 3.75 } }
+	 * // Output: {
+	 * //   semesters: [...ทุกปีการศึกษา/ภาคเรียน...],
+	 * //   overallGpa: 3.45,
+	 * //   totalCredits: 120
+	 * // }
 	 * ```
 	 */
 	public async getCompleteGrades(): Promise<GradeData> {
-		const paginatedResult = await this.getGradesWithPagination();
+		const firstResponse = await this.getGradesRaw();
+		const terms = parseGradeTerms(firstResponse.data);
 
-		if (paginatedResult.isComplete) {
-			return paginatedResult.data;
+		if (terms.length === 0) {
+			return parseGradeHTML(firstResponse.data);
 		}
 
-		return paginatedResult.data;
+		const pages: GradeData[] = [];
+
+		for (const term of terms) {
+			const response = await this.getGradesRaw(term.academicYear, term.semester);
+			const data = parseGradeHTML(response.data);
+
+			data.semesters.forEach((semester) => {
+				semester.academicYear = term.academicYear;
+				semester.semester = term.semester;
+			});
+
+			pages.push(data);
+		}
+
+		return mergeGradeData(pages);
 	}
 
 	public async getCompleteActivity(): Promise<ActivityData> {
@@ -474,6 +584,30 @@ export class Reg implements RegApi {
 		return paginatedResult.data;
 	}
 
+	/**
+	 * ดึงความคืบหน้าชั่วโมงกิจกรรมแยกตามหมวด (มหาวิทยาลัย/คณะ/สาขาวิชา) พร้อมชั่วโมงที่ยังขาดและกิจกรรมที่ลงทะเบียนไว้
+	 * หน้าเว็บแสดงเฉพาะเกณฑ์รวม เกณฑ์รายหมวดต้องระบุเองใน `options.categoryRequiredHours`
+	 *
+	 * @example
+	 * ```typescript
+	 * const progress = await regApi.getActivityProgress({ categoryRequiredHours: { university: 9, faculty: 6, major: 3 } });
+	 * console.log(progress);
+	 * // Output: {
+	 * //   requiredHours: 18,
+	 * //   earnedHours: 9,
+	 * //   pendingHours: 4,
+	 * //   remainingHours: 9,
+	 * //   isCompleted: false,
+	 * //   categories: [{ category: 'university', requiredHours: 9, earnedHours: 6, remainingHours: 3, ... }, ...],
+	 * //   upcoming: [{ activityName: 'จิตอาสาพัฒนามหาวิทยาลัย', status: 'ลงทะเบียน', hours: 4, ... }],
+	 * //   failed: [...]
+	 * // }
+	 * ```
+	 */
+	public async getActivityProgress(options: ActivityRequirementOptions = {}): Promise<ActivityProgress> {
+		return summarizeActivityHours(await this.getCompleteActivity(), options);
+	}
+
 	public async getCompleteStudyPlan(): Promise<StudyPlanData> {
 		const paginatedResult = await this.getStudyPlanWithPagination();
 
@@ -0,0 +1,104 @@
+import type { ActivityCategory, ActivityData, ActivityRecord } from "./parser/activity";
+
+export interface ActivityRequirementOptions {
+	/**
+	 * ชั่วโมงที่ต้องการแยกตามหมวด หน้าเว็บแสดงเฉพาะเกณฑ์รวม จึงต้องระบุเองตามเกณฑ์ของคณะ/สาขา
+	 * หมวดที่ไม่ได้ระบุจะไม่มี `requiredHours`
+	 */
+	categoryRequiredHours?: Partial<Record<ActivityCategory, number>>;
+}
+
+export interface ActivityCategoryProgress {
+	category: ActivityCategory;
+	/** ชื่อหมวดตามที่แสดงบนหน้าเว็บ เช่น `"กิจกรรมมหาวิทยาลัย"` */
+	categoryName: string;
+	/** `undefined` เมื่อหน้าเว็บไม่ได้ระบุเกณฑ์ของหมวดนี้ */
+	requiredHours?: number;
+	earnedHours: number;
+	/** ชั่วโมงของกิจกรรมที่ลงทะเบียนไว้แต่ยังไม่ได้รับผล */
+	pendingHours: number;
+	remainingHours: number;
+	isCompleted: boolean;
+	activities: ActivityRecord[];
+}
+
+export interface ActivityProgress {
+	requiredHours?: number;
+	earnedHours: number;
+	pendingHours: number;
+	/** ชั่วโมงที่ยังขาด โดยคิดทั้งเกณฑ์รวมและเกณฑ์รายหมวด */
+	remainingHours: number;
+	isCompleted: boolean;
+	categories: ActivityCategoryProgress[];
+	/** กิจกรรมที่ลงทะเบียนไว้และยังไม่ได้เข้าร่วม/ยังไม่ได้รับผล */
+	upcoming: ActivityRecord[];
+	failed: ActivityRecord[];
+}
+
+const CATEGORY_ORDER: ActivityCategory[] = ["university", "faculty", "major", "other"];
+
+const CATEGORY_NAMES: Record<ActivityCategory, string> = {
+	university: "กิจกรรมมหาวิทยาลัย",
+	faculty: "กิจกรรมคณะ",
+	major: "กิจกรรมสาขาวิชา",
+	other: "กิจกรรมอื่น ๆ",
+};
+
+function sumHours(activities: ActivityRecord[]): number {
+	return activities.reduce((sum, activity) => sum + (activity.hours ?? 0), 0);
+}
+
+function isPending(activity: ActivityRecord): boolean {
+	return activity.status === "ลงทะเบียน" || activity.status === "รอผล";
+}
+
+/**
+ * สรุปชั่วโมงกิจกรรมแยกตามหมวด เทียบกับเกณฑ์รวมบนหน้าเว็บและเกณฑ์รายหมวดที่ระบุใน `options` และชั่วโมงที่ยังขาด
+ *
+ * @example
+ * ```typescript
+ * const activity = await regApi.getCompleteActivity();
+ * const progress = summarizeActivityHours(activity, { categoryRequiredHours: { university: 9, faculty: 6, major: 3 } });
+ * console.log(progress.earnedHours, progress.remainingHours);
+ * // Output: 9 9
+ * console.log(progress.categories.map((c) => `${c.categoryName}: ${c.earnedHours}/${c.requiredHours ?? '-'}`));
+ * // Output: ['กิจกรรมมหาวิทยาลัย: 6/9', 'กิจกรรมคณะ: 3/6', 'กิจกรรมสาขาวิชา: 0/3']
+ * ```
+ */
+export function summarizeActivityHours(data: ActivityData, options: ActivityRequirementOptions = {}): ActivityProgress {
+	const categoryRequiredHours = options.categoryRequiredHours ?? {};
+
+	const categories: ActivityCategoryProgress[] = CATEGORY_ORDER.map((category) => {
+		const activities = data.activities.filter((activity) => (activity.category ?? "other") === category);
+		const requiredHours = categoryRequiredHours[category];
+		const earnedHours = sumHours(activities.filter((activity) => activity.status === "ผ่าน"));
+		const remainingHours = requiredHours === undefined ? 0 : Math.max(requiredHours - earnedHours, 0);
+
+		return {
+			category,
+			categoryName: activities.find((activity) => activity.activityType)?.activityType ?? CATEGORY_NAMES[category],
+			requiredHours,
+			earnedHours,
+			pendingHours: sumHours(activities.filter(isPending)),
+			remainingHours,
+			isCompleted: remainingHours === 0,
+			activities,
+		};
+	}).filter((category) => category.requiredHours !== undefined || category.activities.length > 0);
+
+	const requiredHours = data.summary.requiredHours;
+	const earnedHours = sumHours(data.activities.filter((activity) => activity.status === "ผ่าน"));
+	const categoryShortfall = categories.reduce((sum, category) => sum + category.remainingHours, 0);
+	const remainingHours = Math.max(requiredHours === undefined ? 0 : requiredHours - earnedHours, categoryShortfall);
+
+	return {
+		requiredHours,
+		earnedHours,
+		pendingHours: sumHours(data.activities.filter(isPending)),
+		remainingHours,
+		isCompleted: requiredHours !== undefined && remainingHours === 0,
+		categories,
+		upcoming: data.activities.filter((activity) => activity.status === "ลงทะเบียน"),
+		failed: data.activities.filter((activity) => activity.status === "ไม่ผ่าน"),
+	};
+}
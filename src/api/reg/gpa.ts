@@ -0,0 +1,258 @@
+import { gradePointMap, type GradeData, type GradeRecord } from "./parser/grade";
+
+/**
+ * วิธีนับรายวิชาที่ลงทะเบียนเรียนซ้ำในเกรดเฉลี่ยสะสม
+ * - `all` นับทุกครั้งที่เรียน (ค่าเริ่มต้น)
+ * - `latest` นับเฉพาะครั้งล่าสุด
+ * - `best` นับเฉพาะครั้งที่ได้เกรดสูงสุด
+ */
+export type RepeatPolicy = "all" | "latest" | "best";
+
+export interface GpaOptions {
+	repeatPolicy?: RepeatPolicy;
+}
+
+export interface TermGpa {
+	academicYear: string;
+	semester: string;
+	/** หน่วยกิตที่นำมาคิดเกรดเฉลี่ยของภาคเรียน */
+	gpaCredits: number;
+	gradePoints: number;
+	gpa: number;
+	/** เกรดเฉลี่ยสะสมถึงภาคเรียนนี้ */
+	cumulativeGpa: number;
+}
+
+export interface GpaResult {
+	terms: TermGpa[];
+	gpa: number;
+	gpaCredits: number;
+	gradePoints: number;
+	/** หน่วยกิตที่สอบผ่านแล้ว (นับรายวิชาซ้ำครั้งเดียว) */
+	earnedCredits: number;
+}
+
+export interface HypotheticalGrade {
+	courseCode: string;
+	grade: string;
+	credits?: number;
+	courseName?: string;
+}
+
+export interface GpaSimulationOptions extends GpaOptions {
+	/** ปีการศึกษาของภาคเรียนที่จำลอง (ค่าเริ่มต้นคือภาคเรียนล่าสุดใน `GradeData`) */
+	academicYear?: string;
+	semester?: string;
+}
+
+export interface GpaSimulation {
+	current: GpaResult;
+	projected: GpaResult;
+	difference: number;
+}
+
+interface Attempt {
+	term: string;
+	order: number;
+	course: GradeRecord;
+}
+
+const GPA_GRADES = new Set(["A", "B+", "B", "C+", "C", "D+", "D", "F"]);
+const PASSING_GRADES = new Set(["A", "B+", "B", "C+", "C", "D+", "D", "S", "P"]);
+
+export const VALID_GRADES = [...GPA_GRADES, "S", "U", "P", "I", "W"];
+
+function round(value: number): number {
+	return parseFloat(value.toFixed(2));
+}
+
+function termKey(academicYear: string, semester: string): string {
+	return `${academicYear}/${semester}`;
+}
+
+/** เรียงภาคเรียนจากเก่าไปใหม่ตามปีการศึกษาและภาคเรียน */
+export function compareTerms(a: { academicYear: string; semester: string }, b: { academicYear: string; semester: string }): number {
+	return parseInt(a.academicYear) - parseInt(b.academicYear) || parseInt(a.semester) - parseInt(b.semester);
+}
+
+export function normalizeCourseCode(courseCode: string): string {
+	return courseCode.replace(/\s+/g, "").toUpperCase();
+}
+
+export function isGpaGrade(grade: string): boolean {
+	return GPA_GRADES.has(grade.trim().toUpperCase());
+}
+
+export function isPassingGrade(grade: string): boolean {
+	return PASSING_GRADES.has(grade.trim().toUpperCase());
+}
+
+/**
+ * รหัสวิชาทั้งหมดที่เรียนผ่านแล้ว ใช้ร่วมกับ `PrerequisiteGraph.getAvailableCourses`
+ *
+ * @example
+ * ```typescript
+ * const grades = await regApi.getCompleteGrades();
+ * console.log(getPassedCourseCodes(grades));
+ * // Output: ['COM 1101-65', 'MAT 1101-65', ...]
+ * ```
+ */
+export function getPassedCourseCodes(data: GradeData): string[] {
+	return data.semesters.flatMap((semester) => semester.courses.filter((course) => isPassingGrade(course.grade)).map((course) => course.courseCode));
+}
+
+function selectAttempts(attempts: Attempt[], policy: RepeatPolicy): Attempt[] {
+	if (policy === "all") {
+		return attempts;
+	}
+
+	const byCourse = new Map<string, Attempt>();
+
+	for (const attempt of attempts) {
+		const key = normalizeCourseCode(attempt.course.courseCode);
+		const current = byCourse.get(key);
+		const points = gradePointMap[attempt.course.grade] ?? 0;
+
+		if (!current) {
+			byCourse.set(key, attempt);
+		} else if (policy === "latest" ? attempt.order > current.order : points > (gradePointMap[current.course.grade] ?? 0)) {
+			byCourse.set(key, attempt);
+		}
+	}
+
+	return [...byCourse.values()];
+}
+
+function summarize(attempts: Attempt[]): { gpaCredits: number; gradePoints: number; gpa: number } {
+	let gpaCredits = 0;
+	let gradePoints = 0;
+
+	for (const { course } of attempts) {
+		gpaCredits += course.credits;
+		gradePoints += (gradePointMap[course.grade] ?? 0) * course.credits;
+	}
+
+	return { gpaCredits, gradePoints, gpa: gpaCredits > 0 ? round(gradePoints / gpaCredits) : 0 };
+}
+
+/**
+ * คำนวณเกรดเฉลี่ยรายภาคและเกรดเฉลี่ยสะสมจากผลการเรียน
+ * ไม่นำเกรด S/U/P/I/W มาคิดเกรดเฉลี่ย และรองรับการเลือกวิธีนับรายวิชาที่เรียนซ้ำ
+ *
+ * @example
+ * ```typescript
+ * const grades = await regApi.getCompleteGrades();
+ * const result = calculateGpa(grades, { repeatPolicy: 'all' });
+ * console.log(result.gpa, result.earnedCredits);
+ * // Output: 2.71 20
+ * ```
+ */
+export function calculateGpa(data: GradeData, options: GpaOptions = {}): GpaResult {
+	const policy = options.repeatPolicy ?? "all";
+	const semesters = [...data.semesters].sort(compareTerms);
+	const terms: TermGpa[] = [];
+	const gpaAttempts: Attempt[] = [];
+	const earned = new Map<string, number>();
+	let order = 0;
+
+	for (const semester of semesters) {
+		const key = termKey(semester.academicYear, semester.semester);
+		const termAttempts: Attempt[] = [];
+
+		for (const course of semester.courses) {
+			const grade = course.grade.trim().toUpperCase();
+
+			if (isPassingGrade(grade)) {
+				earned.set(normalizeCourseCode(course.courseCode), course.credits);
+			}
+
+			if (isGpaGrade(grade)) {
+				termAttempts.push({ term: key, order: order++, course: { ...course, grade } });
+			}
+		}
+
+		gpaAttempts.push(...termAttempts);
+
+		const termSummary = summarize(termAttempts);
+		const cumulative = summarize(selectAttempts(gpaAttempts, policy));
+
+		terms.push({
+			academicYear: semester.academicYear,
+			semester: semester.semester,
+			gpaCredits: termSummary.gpaCredits,
+			gradePoints: termSummary.gradePoints,
+			gpa: termSummary.gpa,
+			cumulativeGpa: cumulative.gpa,
+		});
+	}
+
+	const overall = summarize(selectAttempts(gpaAttempts, policy));
+
+	return {
+		terms,
+		gpa: overall.gpa,
+		gpaCredits: overall.gpaCredits,
+		gradePoints: overall.gradePoints,
+		earnedCredits: [...earned.values()].reduce((sum, credits) => sum + credits, 0),
+	};
+}
+
+/**
+ * จำลองเกรดเฉลี่ยสะสมเมื่อใส่เกรดสมมติให้รายวิชาที่กำลังเรียน
+ * รายวิชาที่มีอยู่แล้วในภาคเรียนที่จำลองจะถูกแทนที่เกรด ส่วนรายวิชาอื่นจะถูกเพิ่มเข้าไปในภาคเรียนนั้น
+ *
+ * @example
+ * ```typescript
+ * const grades = await regApi.getCompleteGrades();
+ * const simulation = simulateGpa(grades, [
+ *   { courseCode: 'COM 2102-65', grade: 'A' },
+ *   { courseCode: 'COM 2201-65', grade: 'B+', credits: 3 }
+ * ]);
+ * console.log(simulation.current.gpa, '→', simulation.projected.gpa);
+ * // Output: 2.71 → 2.95
+ * ```
+ */
+export function simulateGpa(data: GradeData, hypothetical: HypotheticalGrade[], options: GpaSimulationOptions = {}): GpaSimulation {
+	const current = calculateGpa(data, options);
+	const latest = [...data.semesters].sort(compareTerms).at(-1);
+	const academicYear = options.academicYear ?? latest?.academicYear ?? "simulated";
+	const semester = options.semester ?? latest?.semester ?? "1";
+
+	const semesters = data.semesters.map((item) => ({ ...item, courses: [...item.courses] }));
+	let target = semesters.find((item) => item.academicYear === academicYear && item.semester === semester);
+
+	if (!target) {
+		target = { academicYear, semester, courses: [] };
+		semesters.push(target);
+	}
+
+	for (const entry of hypothetical) {
+		const code = normalizeCourseCode(entry.courseCode);
+		const index = target.courses.findIndex((course) => normalizeCourseCode(course.courseCode) === code);
+		const existing = index >= 0 ? target.courses[index] : undefined;
+		const previous = existing ?? semesters.flatMap((item) => item.courses).find((course) => normalizeCourseCode(course.courseCode) === code);
+
+		const record: GradeRecord = {
+			courseCode: entry.courseCode,
+			courseName: entry.courseName ?? previous?.courseName ?? entry.courseCode,
+			section: existing?.section,
+			credits: entry.credits ?? previous?.credits ?? 3,
+			grade: entry.grade.trim().toUpperCase(),
+			gradePoints: gradePointMap[entry.grade.trim().toUpperCase()] ?? 0,
+		};
+
+		if (index >= 0) {
+			target.courses[index] = record;
+		} else {
+			target.courses.push(record);
+		}
+	}
+
+	const projected = calculateGpa({ ...data, semesters }, options);
+
+	return {
+		current,
+		projected,
+		difference: round(projected.gpa - current.gpa),
+	};
+}
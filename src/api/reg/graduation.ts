@@ -0,0 +1,139 @@
+import { calculateGpa, compareTerms, isPassingGrade, normalizeCourseCode, type RepeatPolicy } from "./gpa";
+import type { GradeData } from "./parser/grade";
+import type { StudyPlanCourse, StudyPlanData } from "./parser/studyplan";
+
+export interface GraduationAuditOptions {
+	/** เกรดเฉลี่ยสะสมขั้นต่ำที่ใช้สำเร็จการศึกษา (ค่าเริ่มต้น 2.00) */
+	minimumGpa?: number;
+	repeatPolicy?: RepeatPolicy;
+}
+
+export interface CategoryAudit {
+	categoryName: string;
+	requiredCredits: number;
+	earnedCredits: number;
+	shortfall: number;
+	remainingCourses: StudyPlanCourse[];
+}
+
+export interface AuditCourse {
+	courseCode: string;
+	courseName: string;
+	credits: number;
+	grade: string;
+	academicYear: string;
+	semester: string;
+}
+
+export interface UnmetPrerequisite {
+	courseCode: string;
+	courseName: string;
+	missing: string[];
+}
+
+export interface GraduationAudit {
+	requiredCredits: number;
+	earnedCredits: number;
+	shortfall: number;
+	gpa: number;
+	minimumGpa: number;
+	categories: CategoryAudit[];
+	/** รายวิชาที่สอบผ่านแต่ไม่อยู่ในแผนการเรียน (นับเป็นหน่วยกิตของหมวดวิชาเลือกเสรีถ้ามี) */
+	outsidePlan: AuditCourse[];
+	/** รายวิชาที่ได้ F/U ครั้งล่าสุดและยังไม่ได้เรียนผ่าน */
+	retakes: AuditCourse[];
+	/** รายวิชาในแผนที่ยังไม่ผ่านและยังเรียนวิชาบังคับก่อนไม่ครบ */
+	unmetPrerequisites: UnmetPrerequisite[];
+	/** เกรดเฉลี่ยถึงเกณฑ์ ไม่มีวิชาที่ต้องเรียนซ้ำ ไม่มีหมวดที่หน่วยกิตขาด และไม่มีวิชาบังคับก่อนที่ยังไม่ผ่าน */
+	onTrack: boolean;
+	isEligible: boolean;
+}
+
+/**
+ * ตรวจสอบสถานะการสำเร็จการศึกษาโดยเทียบแผนการเรียนกับผลการเรียนจริง
+ *
+ * @example
+ * ```typescript
+ * const [plan, grades] = await Promise.all([regApi.getCompleteStudyPlan(), regApi.getCompleteGrades()]);
+ * const audit = auditGraduation(plan, grades);
+ * console.log(audit.onTrack, audit.shortfall);
+ * // Output: false 106
+ * console.log(audit.categories.map((c) => `${c.categoryName}: ขาด ${c.shortfall} หน่วยกิต`));
+ * ```
+ */
+export function auditGraduation(plan: StudyPlanData, grades: GradeData, options: GraduationAuditOptions = {}): GraduationAudit {
+	const minimumGpa = options.minimumGpa ?? 2.0;
+	const gpa = calculateGpa(grades, { repeatPolicy: options.repeatPolicy }).gpa;
+	const semesters = [...grades.semesters].sort(compareTerms);
+
+	const passed = new Map<string, AuditCourse>();
+	const latestAttempt = new Map<string, AuditCourse>();
+
+	for (const semester of semesters) {
+		for (const course of semester.courses) {
+			const code = normalizeCourseCode(course.courseCode);
+			const attempt: AuditCourse = {
+				courseCode: course.courseCode,
+				courseName: course.courseName,
+				credits: course.credits,
+				grade: course.grade.trim().toUpperCase(),
+				academicYear: semester.academicYear,
+				semester: semester.semester,
+			};
+
+			latestAttempt.set(code, attempt);
+			if (isPassingGrade(attempt.grade)) {
+				passed.set(code, attempt);
+			}
+		}
+	}
+
+	const planCodes = new Set(plan.categories.flatMap((category) => category.courses.map((course) => normalizeCourseCode(course.courseCode))));
+	const outsidePlan = [...passed.entries()].filter(([code]) => !planCodes.has(code)).map(([, course]) => course);
+	const outsidePlanCredits = outsidePlan.reduce((sum, course) => sum + course.credits, 0);
+	const freeElectiveIndex = plan.categories.findIndex((category) => category.categoryName.includes("เลือกเสรี"));
+
+	const categories: CategoryAudit[] = plan.categories.map((category, index) => {
+		const remainingCourses = category.courses.filter((course) => !passed.has(normalizeCourseCode(course.courseCode)));
+		const planCredits = category.courses.filter((course) => passed.has(normalizeCourseCode(course.courseCode))).reduce((sum, course) => sum + course.credits, 0);
+		const earnedCredits = planCredits + (index === freeElectiveIndex ? outsidePlanCredits : 0);
+
+		return {
+			categoryName: category.categoryName,
+			requiredCredits: category.requiredCredits,
+			earnedCredits,
+			shortfall: Math.max(category.requiredCredits - earnedCredits, 0),
+			remainingCourses,
+		};
+	});
+
+	const retakes = [...latestAttempt.entries()].filter(([code, attempt]) => (attempt.grade === "F" || attempt.grade === "U") && !passed.has(code)).map(([, attempt]) => attempt);
+
+	const unmetPrerequisites: UnmetPrerequisite[] = plan.categories
+		.flatMap((category) => category.courses)
+		.filter((course) => !passed.has(normalizeCourseCode(course.courseCode)))
+		.map((course) => ({
+			courseCode: course.courseCode,
+			courseName: course.courseName,
+			missing: (course.prerequisite ?? []).filter((code) => !passed.has(normalizeCourseCode(code))),
+		}))
+		.filter((item) => item.missing.length > 0);
+
+	const requiredCredits = categories.reduce((sum, category) => sum + category.requiredCredits, 0);
+	const earnedCredits = [...passed.values()].reduce((sum, course) => sum + course.credits, 0);
+	const shortfall = categories.reduce((sum, category) => sum + category.shortfall, 0);
+
+	return {
+		requiredCredits,
+		earnedCredits,
+		shortfall,
+		gpa,
+		minimumGpa,
+		categories,
+		outsidePlan,
+		retakes,
+		unmetPrerequisites,
+		onTrack: gpa >= minimumGpa && retakes.length === 0 && categories.every((category) => category.shortfall === 0) && unmetPrerequisites.length === 0,
+		isEligible: shortfall === 0 && retakes.length === 0 && gpa >= minimumGpa,
+	};
+}
@@ -1,12 +1,24 @@
 import * as cheerio from "cheerio";
+import { UpstreamChangedError } from "../../errors";
 import type { PaginationInfo, PaginatedResult } from "../../common/pagination";
 
 type PaginatedActivityResult = PaginatedResult<ActivityData>;
 
+/**
+ * หมวดของกิจกรรมตามเกณฑ์การผ่านกิจกรรม
+ * - `university` กิจกรรมมหาวิทยาลัย
+ * - `faculty` กิจกรรมคณะ
+ * - `major` กิจกรรมสาขาวิชา/โปรแกรมวิชา
+ * - `other` กิจกรรมที่ระบุหมวดไม่ได้
+ */
+export type ActivityCategory = "university" | "faculty" | "major" | "other";
+
 export interface ActivityRecord {
 	activityId: string;
 	activityName: string;
 	activityType?: string;
+	/** หมวดที่อ่านจาก `activityType` (`undefined` เมื่อหน้าเว็บไม่มีคอลัมน์ประเภท) */
+	category?: ActivityCategory;
 	date?: string;
 	location?: string;
 	status?: "ผ่าน" | "ไม่ผ่าน" | "รอผล" | "ลงทะเบียน";
@@ -29,6 +41,20 @@ export interface ActivityData {
 	summary: ActivitySummary;
 }
 
+export function parseActivityCategory(text: string): ActivityCategory {
+	if (text.includes("มหาวิทยาลัย")) return "university";
+	if (text.includes("คณะ")) return "faculty";
+	if (text.includes("สาขา") || text.includes("โปรแกรม")) return "major";
+	return "other";
+}
+
+function parseActivityStatus(text: string): NonNullable<ActivityRecord["status"]> {
+	if (text.includes("ไม่ผ่าน")) return "ไม่ผ่าน";
+	if (text.includes("ผ่าน")) return "ผ่าน";
+	if (text.includes("ลงทะเบียน")) return "ลงทะเบียน";
+	return "รอผล";
+}
+
 export function parseActivityHTML(html: string): ActivityData {
 	const $ = cheerio.load(html);
 	const result: ActivityData = {
@@ -41,6 +67,10 @@ export function parseActivityHTML(html: string): ActivityData {
 		},
 	};
 
+	if ($("table.username").length === 0) {
+		throw new UpstreamChangedError("activity", "Student header (table.username) not found on activity page");
+	}
+
 	const usernameText = $("table.username td").text();
 	const studentMatch = usernameText.match(/(\d{8})\s*:\s*(.+)/);
 	if (studentMatch?.[1] && studentMatch[2]) {
@@ -48,8 +78,14 @@ export function parseActivityHTML(html: string): ActivityData {
 		result.studentName = studentMatch[2].trim();
 	}
 
+	const requiredHoursMatch = $("body")
+		.text()
+		.match(/ต้องการ\s*(\d+)\s*ชั่วโมง/);
+	const requiredHours = requiredHoursMatch?.[1] ? parseInt(requiredHoursMatch[1]) : undefined;
+
 	let totalHours = 0;
 	let passedCount = 0;
+	let foundActivityTable = false;
 
 	$("table").each((_tableIndex, table) => {
 		const $table = $(table);
@@ -60,6 +96,13 @@ export function parseActivityHTML(html: string): ActivityData {
 			return;
 		}
 
+		foundActivityTable = true;
+
+		const typeIndex = headerRow
+			.find("td, th")
+			.toArray()
+			.findIndex((cell) => $(cell).text().includes("ประเภท"));
+
 		$table.find("tr").each((_rowIndex, row) => {
 			const $row = $(row);
 			const cells = $row.find("td");
@@ -74,21 +117,12 @@ export function parseActivityHTML(html: string): ActivityData {
 				return;
 			}
 
-			let status: ActivityRecord["status"] = "รอผล";
-			if (statusText.includes("ผ่าน")) {
-				status = "ผ่าน";
-				passedCount++;
-			} else if (statusText.includes("ไม่ผ่าน")) {
-				status = "ไม่ผ่าน";
-			} else if (statusText.includes("ลงทะเบียน")) {
-				status = "ลงทะเบียน";
-			}
+			const status = parseActivityStatus(statusText);
 
 			let hours = 0;
 			const hoursMatch = $(cells[3])?.text().match(/(\d+)/);
 			if (hoursMatch?.[1]) {
 				hours = parseInt(hoursMatch[1]);
-				totalHours += hours;
 			}
 
 			let date: string | undefined;
@@ -103,9 +137,22 @@ export function parseActivityHTML(html: string): ActivityData {
 				location = locationText;
 			}
 
+			const activityTypeText = $(cells[typeIndex >= 0 ? typeIndex : 6])
+				?.text()
+				.trim();
+			const activityType = activityTypeText && activityTypeText !== "-" ? activityTypeText : undefined;
+			const category = activityType ? parseActivityCategory(activityType) : undefined;
+
+			if (status === "ผ่าน") {
+				passedCount++;
+				totalHours += hours;
+			}
+
 			result.activities.push({
 				activityId: activityIdText,
 				activityName: activityNameText,
+				activityType,
+				category,
 				status,
 				hours,
 				date,
@@ -114,20 +161,18 @@ export function parseActivityHTML(html: string): ActivityData {
 		});
 	});
 
+	if (!foundActivityTable) {
+		throw new UpstreamChangedError("activity", "Activity table not found on activity page");
+	}
+
 	result.summary = {
 		totalActivities: result.activities.length,
 		passedActivities: passedCount,
 		totalHours,
-		isCompleted: passedCount >= (result.summary.requiredHours || 0),
+		requiredHours,
+		isCompleted: requiredHours !== undefined && totalHours >= requiredHours,
 	};
 
-	const pageText = $("body").text();
-	const requiredHoursMatch = pageText.match(/ต้องการ\s*(\d+)\s*ชั่วโมง/);
-	if (requiredHoursMatch?.[1]) {
-		result.summary.requiredHours = parseInt(requiredHoursMatch[1]);
-		result.summary.isCompleted = totalHours >= result.summary.requiredHours;
-	}
-
 	return result;
 }
 
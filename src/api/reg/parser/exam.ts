@@ -0,0 +1,164 @@
+import * as cheerio from "cheerio";
+import { UpstreamChangedError } from "../../errors";
+import { parseThaiDate } from "../../utilities/thai-date";
+
+export type ExamType = "midterm" | "final" | "unknown";
+
+export interface ExamSchedule {
+	courseCode: string;
+	courseName: string;
+	section?: string;
+	examType: ExamType;
+	/** วันที่สอบตามที่แสดงบนหน้าเว็บ เช่น `"14 ส.ค. 2567"` */
+	dateText: string;
+	/** วันที่สอบรูปแบบ `YYYY-MM-DD` (ค.ศ.) หากแปลงได้ */
+	date?: string;
+	startTime?: string;
+	endTime?: string;
+	room?: string;
+	seat?: string;
+}
+
+export interface ExamScheduleData {
+	studentId?: string;
+	studentName?: string;
+	semester?: string;
+	academicYear?: string;
+	exams: ExamSchedule[];
+}
+
+type ExamColumn = "courseCode" | "courseName" | "section" | "examType" | "date" | "time" | "room" | "seat";
+
+const COLUMN_KEYWORDS: Array<{ column: ExamColumn; keywords: string[] }> = [
+	{ column: "courseCode", keywords: ["รหัสวิชา"] },
+	{ column: "courseName", keywords: ["ชื่อวิชา"] },
+	{ column: "section", keywords: ["กลุ่ม"] },
+	{ column: "seat", keywords: ["ที่นั่ง"] },
+	{ column: "date", keywords: ["วันที่", "วันสอบ"] },
+	{ column: "time", keywords: ["เวลา"] },
+	{ column: "room", keywords: ["ห้อง"] },
+	{ column: "examType", keywords: ["สอบ", "ประเภท"] },
+];
+
+function parseExamType(text: string): ExamType {
+	if (text.includes("กลาง") || /mid/i.test(text)) return "midterm";
+	if (text.includes("ปลาย") || /final/i.test(text)) return "final";
+	return "unknown";
+}
+
+function parseExamDate(text: string): string | undefined {
+	const date = parseThaiDate(text);
+	if (!date) {
+		return undefined;
+	}
+
+	return `${date.year}-${String(date.month).padStart(2, "0")}-${String(date.day).padStart(2, "0")}`;
+}
+
+function parseExamTime(text: string): { startTime?: string; endTime?: string } {
+	const match = text.match(/(\d{1,2})[:.](\d{2})\s*-\s*(\d{1,2})[:.](\d{2})/);
+	if (!match?.[1] || !match[2] || !match[3] || !match[4]) {
+		return {};
+	}
+
+	return {
+		startTime: `${match[1].padStart(2, "0")}:${match[2]}`,
+		endTime: `${match[3].padStart(2, "0")}:${match[4]}`,
+	};
+}
+
+function mapColumns(headers: string[]): Partial<Record<ExamColumn, number>> {
+	const columns: Partial<Record<ExamColumn, number>> = {};
+
+	headers.forEach((header, index) => {
+		const match = COLUMN_KEYWORDS.find(({ column, keywords }) => columns[column] === undefined && keywords.some((keyword) => header.includes(keyword)));
+		if (match) {
+			columns[match.column] = index;
+		}
+	});
+
+	return columns;
+}
+
+export function parseExamSchedule(html: string): ExamScheduleData {
+	const $ = cheerio.load(html, {
+		xml: {
+			xmlMode: false,
+		},
+	});
+
+	const result: ExamScheduleData = {
+		exams: [],
+	};
+
+	if ($("table.username").length === 0) {
+		throw new UpstreamChangedError("exam", "Student header (table.username) not found on exam schedule page");
+	}
+
+	const usernameText = $("table.username td").text();
+	const studentMatch = usernameText.match(/(\d{8})\s*:\s*(.+)/);
+	if (studentMatch?.[1] && studentMatch[2]) {
+		result.studentId = studentMatch[1].trim();
+		result.studentName = studentMatch[2].trim();
+	}
+
+	const selYear = $("select[name=ACADYEAR] option[selected]").first();
+	if (selYear.length > 0) {
+		result.academicYear = selYear.val() as string;
+	}
+
+	const selSemester = $("select[name=SEMESTER] option[selected]").first();
+	if (selSemester.length > 0) {
+		result.semester = selSemester.val() as string;
+	}
+
+	let foundExamTable = false;
+	$("table").each((_tableIndex, table) => {
+		if (foundExamTable) return;
+
+		const $table = $(table);
+		const $headerRow = $table.find("tr").first();
+		const headers = $headerRow
+			.find("td, th")
+			.map((_index, cell) => $(cell).text().trim())
+			.get();
+
+		if (!headers.some((header) => header.includes("รหัสวิชา")) || !headers.some((header) => header.includes("สอบ"))) {
+			return;
+		}
+
+		const columns = mapColumns(headers);
+		if (columns.courseCode === undefined || columns.date === undefined) return;
+
+		foundExamTable = true;
+
+		$table
+			.find("tr")
+			.slice(1)
+			.each((_rowIndex, row) => {
+				const cells = $(row).find("td");
+				if (cells.length !== headers.length) return;
+
+				const cellText = (column: ExamColumn) => (columns[column] === undefined ? "" : $(cells[columns[column]]).text().trim());
+				const courseCode = cellText("courseCode");
+
+				if (!/^[A-Z]+\s+\d+-\d+$/.test(courseCode)) return;
+
+				const dateText = cellText("date");
+
+				result.exams.push({
+					courseCode,
+					courseName: cellText("courseName"),
+					section: cellText("section") || undefined,
+					examType: parseExamType(cellText("examType")),
+					dateText,
+					date: parseExamDate(dateText),
+					...parseExamTime(cellText("time") || dateText),
+					room: cellText("room") || undefined,
+					seat: cellText("seat") || undefined,
+				});
+			});
+	});
+
+	return result;
+}
@@ -1,4 +1,5 @@
 import * as cheerio from "cheerio";
+import { UpstreamChangedError } from "../../errors";
 import type { PaginationInfo, PaginatedResult } from "../../common/pagination";
 
 type PaginatedGradeResult = PaginatedResult<GradeData>;
@@ -33,7 +34,7 @@ export interface GradeData {
 	totalCredits?: number;
 }
 
-const gradePointMap: Record<string, number> = {
+export const gradePointMap: Record<string, number> = {
 	A: 4.0,
 	"B+": 3.5,
 	B: 3.0,
@@ -61,6 +62,10 @@ export function parseGradeHTML(html: string): GradeData {
 		semesters: [],
 	};
 
+	if ($("table.username").length === 0) {
+		throw new UpstreamChangedError("grade", "Student header (table.username) not found on grade page");
+	}
+
 	const usernameText = $("table.username td").text();
 	const studentMatch = usernameText.match(/(\d{8})\s*:\s*(.+)/);
 	if (studentMatch?.[1] && studentMatch[2]) {
@@ -164,6 +169,12 @@ export function parseGradeHTML(html: string): GradeData {
 		}
 	});
 
+	applyOverallSummary(result);
+
+	return result;
+}
+
+function applyOverallSummary(result: GradeData): void {
 	let overallCredits = 0;
 	let overallGradePoints = 0;
 
@@ -176,6 +187,58 @@ export function parseGradeHTML(html: string): GradeData {
 
 	result.overallGpa = overallCredits > 0 ? parseFloat((overallGradePoints / overallCredits).toFixed(2)) : 0;
 	result.totalCredits = overallCredits;
+}
+
+export interface GradeTerm {
+	academicYear: string;
+	semester: string;
+}
+
+export function parseGradeTerms(html: string): GradeTerm[] {
+	const $ = cheerio.load(html);
+	const terms: GradeTerm[] = [];
+	const seen = new Set<string>();
+
+	$("a[onclick*='Setpostform']").each((_index, element) => {
+		const onclick = $(element).attr("onclick") || "";
+		const yearMatch = onclick.match(/gradeacadyear=(\d{4})/);
+		const semesterMatch = onclick.match(/gradesemester=(\d+)/);
+
+		if (!yearMatch?.[1] || !semesterMatch?.[1]) {
+			return;
+		}
+
+		const key = `${yearMatch[1]}/${semesterMatch[1]}`;
+		if (!seen.has(key)) {
+			seen.add(key);
+			terms.push({ academicYear: yearMatch[1], semester: semesterMatch[1] });
+		}
+	});
+
+	return terms.sort((a, b) => a.academicYear.localeCompare(b.academicYear) || a.semester.localeCompare(b.semester));
+}
+
+export function mergeGradeData(pages: GradeData[]): GradeData {
+	const result: GradeData = {
+		semesters: [],
+	};
+	const seen = new Set<string>();
+
+	for (const page of pages) {
+		result.studentId ??= page.studentId;
+		result.studentName ??= page.studentName;
+
+		for (const semester of page.semesters) {
+			const key = `${semester.academicYear}/${semester.semester}`;
+			if (seen.has(key)) continue;
+
+			seen.add(key);
+			result.semesters.push(semester);
+		}
+	}
+
+	result.semesters.sort((a, b) => a.academicYear.localeCompare(b.academicYear) || a.semester.localeCompare(b.semester));
+	applyOverallSummary(result);
 
 	return result;
 }
@@ -1,4 +1,5 @@
 import * as cheerio from "cheerio";
+import { UpstreamChangedError } from "../../errors";
 
 export interface StudentInfo {
 	studentId: string;
@@ -28,6 +29,10 @@ export function parseStudentInfo(html: string): StudentInfo {
 	};
 
 	const $usernameTable = $("table.username");
+	if ($usernameTable.length === 0) {
+		throw new UpstreamChangedError("student", "Student header (table.username) not found on student info page");
+	}
+
 	const $usernameTd = $usernameTable.find("td").eq(1);
 	const usernameFullText = $usernameTd.text().trim();
 
@@ -1,4 +1,5 @@
 import * as cheerio from "cheerio";
+import { UpstreamChangedError } from "../../errors";
 import type { PaginationInfo, PaginatedResult } from "../../common/pagination";
 
 type PaginatedStudyPlanResult = PaginatedResult<StudyPlanData>;
@@ -49,6 +50,10 @@ export function parseStudyPlanHTML(html: string): StudyPlanData {
 		remainingCourses: [],
 	};
 
+	if ($("table.username").length === 0) {
+		throw new UpstreamChangedError("studyplan", "Student header (table.username) not found on study plan page");
+	}
+
 	const usernameText = $("table.username td").text();
 	const studentMatch = usernameText.match(/(\d{8})\s*:\s*(.+)/);
 	if (studentMatch?.[1] && studentMatch[2]) {
@@ -67,6 +72,7 @@ export function parseStudyPlanHTML(html: string): StudyPlanData {
 		result.curriculum = curriculumMatch[1];
 	}
 
+	let foundPlanTable = false;
 	$("table").each((_tableIndex, table) => {
 		const $table = $(table);
 		const headerRow = $table.find("tr").first();
@@ -76,7 +82,10 @@ export function parseStudyPlanHTML(html: string): StudyPlanData {
 			return;
 		}
 
+		foundPlanTable = true;
+
 		let currentCategory = "other";
+		let categoryName = "other";
 		let categoryRequiredCredits = 0;
 		let categoryCompletedCredits = 0;
 		const categoryCourses: StudyPlanCourse[] = [];
@@ -86,16 +95,18 @@ export function parseStudyPlanHTML(html: string): StudyPlanData {
 			const cells = $row.find("td");
 
 			const rowText = $row.text().trim();
-			if (rowText.includes("วิชา") || rowText.includes("วิชาเฉพาะ") || rowText.includes("วิชาเลือก") || rowText.includes("วิชาศึกษาทั่วไป")) {
-				if (rowText.includes("วิชา")) currentCategory = "วิชา";
-				else if (rowText.includes("วิชาเฉพาะ")) currentCategory = "วิชาเฉพาะ";
-				else if (rowText.includes("วิชาเลือก")) currentCategory = "วิชาเลือก";
-				else if (rowText.includes("วิชาศึกษาทั่วไป")) currentCategory = "วิชาศึกษาทั่วไป";
-
+			if (cells.length < 4 && (rowText.includes("วิชา") || rowText.includes("หน่วยกิต"))) {
 				const creditsMatch = rowText.match(/(\d+)\s*หน่วยกิต/);
 				if (creditsMatch?.[1]) {
 					categoryRequiredCredits = parseInt(creditsMatch[1]);
 				}
+
+				categoryName = rowText.replace(/\d+\s*หน่วยกิต/, "").trim() || categoryName;
+
+				if (rowText.includes("วิชาศึกษาทั่วไป")) currentCategory = "วิชาศึกษาทั่วไป";
+				else if (rowText.includes("วิชาเฉพาะ")) currentCategory = "วิชาเฉพาะ";
+				else if (rowText.includes("วิชาเลือก")) currentCategory = "วิชาเลือก";
+				else if (rowText.includes("วิชา")) currentCategory = "วิชา";
 				return;
 			}
 
@@ -135,11 +146,28 @@ export function parseStudyPlanHTML(html: string): StudyPlanData {
 			}
 
 			let prerequisite: string[] | undefined;
+			let corequisite: string[] | undefined;
 			const prereqCell = $(cells[5]);
 			if (prereqCell.length > 0) {
 				const prereqText = prereqCell.text().trim();
 				if (prereqText && prereqText !== "-") {
-					prerequisite = prereqText.split(",").map((p) => p.trim());
+					const requisites = prereqText
+						.split(",")
+						.map((p) => p.trim())
+						.filter(Boolean);
+					const isCorequisite = (value: string) => /ควบคู่|\(C\)|^co[-:\s]/i.test(value);
+					const stripMarker = (value: string) => value.replace(/ควบคู่|\(C\)|^co[-:\s]/gi, "").trim();
+
+					prerequisite = requisites.filter((p) => !isCorequisite(p));
+					corequisite = requisites.filter(isCorequisite).map(stripMarker);
+				}
+			}
+
+			const coreqCell = $(cells[6]);
+			if (coreqCell.length > 0) {
+				const coreqText = coreqCell.text().trim();
+				if (coreqText && coreqText !== "-") {
+					corequisite = [...(corequisite ?? []), ...coreqText.split(",").map((p) => p.trim())];
 				}
 			}
 
@@ -152,7 +180,8 @@ export function parseStudyPlanHTML(html: string): StudyPlanData {
 				category: currentCategory as StudyPlanCourse["category"],
 				isCompleted,
 				grade,
-				prerequisite,
+				prerequisite: prerequisite?.length ? prerequisite : undefined,
+				corequisite: corequisite?.length ? corequisite : undefined,
 			};
 
 			categoryCourses.push(course);
@@ -164,7 +193,7 @@ export function parseStudyPlanHTML(html: string): StudyPlanData {
 
 		if (categoryCourses.length > 0) {
 			result.categories.push({
-				categoryName: currentCategory,
+				categoryName,
 				requiredCredits: categoryRequiredCredits,
 				completedCredits: categoryCompletedCredits,
 				courses: categoryCourses,
@@ -175,6 +204,10 @@ export function parseStudyPlanHTML(html: string): StudyPlanData {
 		}
 	});
 
+	if (!foundPlanTable) {
+		throw new UpstreamChangedError("studyplan", "Course table not found on study plan page");
+	}
+
 	return result;
 }
 
@@ -1,4 +1,23 @@
 import * as cheerio from "cheerio";
+import { UpstreamChangedError } from "../../errors";
+
+export type TimetableSlotType = "lecture" | "lab" | "unknown";
+
+export interface TimetableSlot {
+	/** วันในสัปดาห์ (0 = อาทิตย์ ... 6 = เสาร์) ตรงกับ `Date.getDay()` */
+	day: number;
+	dayName: string;
+	startTime: string;
+	endTime: string;
+	room?: string;
+	building?: string;
+	type: TimetableSlotType;
+}
+
+export interface TimetableClash {
+	first: { courseCode: string; slot: TimetableSlot };
+	second: { courseCode: string; slot: TimetableSlot };
+}
 
 export interface CourseSchedule {
 	courseCode: string;
@@ -8,6 +27,13 @@ export interface CourseSchedule {
 	instructor?: string;
 	schedule?: string;
 	room?: string;
+	slots?: TimetableSlot[];
+}
+
+export interface TimetableTerm {
+	academicYear: string;
+	/** `undefined` เมื่อหน้าเว็บมีเฉพาะตัวเลือกปีการศึกษา ผู้เรียกต้องเลือกภาคเรียนเอง */
+	semester?: string;
 }
 
 export interface TimetableData {
@@ -18,6 +44,94 @@ export interface TimetableData {
 	courses: CourseSchedule[];
 }
 
+const THAI_DAYS: Array<{ day: number; name: string; aliases: string[] }> = [
+	{ day: 0, name: "อาทิตย์", aliases: ["อาทิตย์", "อา"] },
+	{ day: 1, name: "จันทร์", aliases: ["จันทร์", "จ"] },
+	{ day: 2, name: "อังคาร", aliases: ["อังคาร", "อ"] },
+	{ day: 3, name: "พุธ", aliases: ["พุธ", "พ"] },
+	{ day: 4, name: "พฤหัสบดี", aliases: ["พฤหัสบดี", "พฤหัส", "พฤ"] },
+	{ day: 5, name: "ศุกร์", aliases: ["ศุกร์", "ศ"] },
+	{ day: 6, name: "เสาร์", aliases: ["เสาร์", "ส"] },
+];
+
+const DAY_ALIASES = THAI_DAYS.flatMap(({ day, aliases }) => aliases.map((alias) => ({ day, alias }))).sort((a, b) => b.alias.length - a.alias.length);
+
+const SLOT_PATTERN = new RegExp(
+	`(${DAY_ALIASES.map(({ alias }) => alias).join("|")})\\.?\\s*(\\d{1,2})[:.](\\d{2})\\s*-\\s*(\\d{1,2})[:.](\\d{2})\\s*([A-Za-z]+\\d*-[A-Za-z0-9.]+)?\\s*(?:\\((ท|ป)\\))?`,
+	"g",
+);
+
+function formatTime(hour: string, minute: string): string {
+	return `${hour.padStart(2, "0")}:${minute}`;
+}
+
+function toMinutes(time: string): number {
+	const [hour = "0", minute = "0"] = time.split(":");
+	return parseInt(hour) * 60 + parseInt(minute);
+}
+
+/**
+ * แปลงข้อความวัน เวลา ห้อง ของรายวิชา (เช่น `"จ. 08:00-09:50 SCI9-306 (ท)"`) เป็นช่วงเวลาเรียนรายสัปดาห์
+ *
+ * @example
+ * ```typescript
+ * const slots = parseScheduleSlots("จ. 08:00-09:50 SCI9-306 (ท) พ. 13:00-14:50 SCI9-401 (ป)");
+ * console.log(slots[1]);
+ * // Output: { day: 3, dayName: 'พุธ', startTime: '13:00', endTime: '14:50', room: 'SCI9-401', building: 'SCI9', type: 'lab' }
+ * ```
+ */
+export function parseScheduleSlots(scheduleText: string): TimetableSlot[] {
+	const slots: TimetableSlot[] = [];
+
+	for (const match of scheduleText.matchAll(SLOT_PATTERN)) {
+		const [, dayText = "", startHour = "", startMinute = "", endHour = "", endMinute = "", room, typeText] = match;
+		const day = DAY_ALIASES.find(({ alias }) => alias === dayText)?.day ?? -1;
+		const dayInfo = THAI_DAYS.find((item) => item.day === day);
+
+		if (!dayInfo) continue;
+
+		slots.push({
+			day,
+			dayName: dayInfo.name,
+			startTime: formatTime(startHour, startMinute),
+			endTime: formatTime(endHour, endMinute),
+			room: room || undefined,
+			building: room?.split("-")[0] || undefined,
+			type: typeText === "ท" ? "lecture" : typeText === "ป" ? "lab" : "unknown",
+		});
+	}
+
+	return slots;
+}
+
+/**
+ * ตรวจหาช่วงเวลาเรียนที่ซ้อนทับกันระหว่างรายวิชา
+ *
+ * @example
+ * ```typescript
+ * const timetable = await regApi.getTimeTable();
+ * const clashes = findTimetableClashes(timetable.courses);
+ * console.log(clashes.length); // 0 ถ้าไม่มีวิชาเรียนชนกัน
+ * ```
+ */
+export function findTimetableClashes(courses: CourseSchedule[]): TimetableClash[] {
+	const entries = courses.flatMap((course) => (course.slots ?? []).map((slot) => ({ courseCode: course.courseCode, slot })));
+	const clashes: TimetableClash[] = [];
+
+	entries.forEach((first, index) => {
+		entries.slice(index + 1).forEach((second) => {
+			if (first.courseCode === second.courseCode || first.slot.day !== second.slot.day) return;
+
+			const overlaps = toMinutes(first.slot.startTime) < toMinutes(second.slot.endTime) && toMinutes(second.slot.startTime) < toMinutes(first.slot.endTime);
+			if (overlaps) {
+				clashes.push({ first, second });
+			}
+		});
+	});
+
+	return clashes;
+}
+
 export function parseTimetable(html: string): TimetableData {
 	const $ = cheerio.load(html, {
 		xml: {
@@ -29,6 +143,10 @@ export function parseTimetable(html: string): TimetableData {
 		courses: [],
 	};
 
+	if ($("table.username").length === 0) {
+		throw new UpstreamChangedError("timetable", "Student header (table.username) not found on timetable page");
+	}
+
 	const usernameText = $("table.username td").text();
 	const studentMatch = usernameText.match(/(\d{8})\s*:\s*(.+)/);
 	if (studentMatch?.[1] && studentMatch[2]) {
@@ -46,6 +164,11 @@ export function parseTimetable(html: string): TimetableData {
 		if (yearParam?.[1]) result.academicYear = yearParam[1];
 	}
 
+	const selSemester = $("select[name=SEMESTER] option[selected]").first();
+	if (selSemester.length > 0) {
+		result.semester = selSemester.val() as string;
+	}
+
 	if (!result.semester) {
 		const semParam =
 			bodyHtml.match(/gradesemester=\s*(\d)/i) || bodyHtml.match(/gradesemester%3D(\d)/i) || bodyHtml.match(/ภาคเรียน(?:ที่)?\s*(\d)/i) || bodyHtml.match(/semester\s*(\d)/i);
@@ -94,6 +217,7 @@ export function parseTimetable(html: string): TimetableData {
 					instructor: instructorText || undefined,
 					schedule: scheduleText || undefined,
 					room: roomMatch?.[1] || undefined,
+					slots: parseScheduleSlots(scheduleText),
 				});
 			}
 		});
@@ -101,3 +225,51 @@ export function parseTimetable(html: string): TimetableData {
 
 	return result;
 }
+
+export function parseTimetableTerms(html: string): TimetableTerm[] {
+	const $ = cheerio.load(html);
+	const terms: TimetableTerm[] = [];
+	const seen = new Set<string>();
+
+	const addTerm = (academicYear: string, semester?: string) => {
+		const key = `${academicYear}/${semester ?? ""}`;
+		if (seen.has(key)) return;
+
+		seen.add(key);
+		terms.push(semester === undefined ? { academicYear } : { academicYear, semester });
+	};
+
+	$("a[onclick*='Setpostform']").each((_index, element) => {
+		const onclick = $(element).attr("onclick") || "";
+		const yearMatch = onclick.match(/acadyear=(\d{4})/i);
+		const semesterMatch = onclick.match(/semester=(\d)/i);
+
+		if (yearMatch?.[1] && semesterMatch?.[1]) {
+			addTerm(yearMatch[1], semesterMatch[1]);
+		}
+	});
+
+	if (terms.length === 0) {
+		const years = $("select[name=ACADYEAR] option")
+			.map((_index, option) => ($(option).val() as string | undefined)?.trim())
+			.get()
+			.filter((year): year is string => !!year && /^\d{4}$/.test(year));
+		const semesters = $("select[name=SEMESTER] option")
+			.map((_index, option) => ($(option).val() as string | undefined)?.trim())
+			.get()
+			.filter((semester): semester is string => !!semester && /^\d$/.test(semester));
+
+		for (const year of years) {
+			if (semesters.length === 0) {
+				addTerm(year);
+				continue;
+			}
+
+			for (const semester of semesters) {
+				addTerm(year, semester);
+			}
+		}
+	}
+
+	return terms.sort((a, b) => a.academicYear.localeCompare(b.academicYear) || (a.semester ?? "").localeCompare(b.semester ?? ""));
+}
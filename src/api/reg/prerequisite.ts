@@ -0,0 +1,204 @@
+import { PrerequisiteCycleError } from "../errors";
+import { normalizeCourseCode } from "./gpa";
+import type { StudyPlanCourse, StudyPlanData } from "./parser/studyplan";
+
+export interface CourseNode {
+	courseCode: string;
+	/** `undefined` เมื่อรายวิชาถูกอ้างถึงเป็นวิชาบังคับก่อนแต่ไม่อยู่ในแผนการเรียน */
+	course?: StudyPlanCourse;
+	prerequisites: string[];
+	corequisites: string[];
+	dependents: string[];
+}
+
+/**
+ * กราฟความสัมพันธ์ของรายวิชาในแผนการเรียน (วิชาบังคับก่อน/วิชาเรียนควบคู่)
+ *
+ * @example
+ * ```typescript
+ * const plan = await regApi.getCompleteStudyPlan();
+ * const graph = PrerequisiteGraph.fromStudyPlan(plan);
+ *
+ * console.log(graph.findCycles()); // [] ถ้าไม่มีวิชาบังคับก่อนวนกัน
+ * console.log(graph.topologicalOrder());
+ * // Output: ['COM 1101-65', 'MAT 1101-65', 'COM 1201-65', ...]
+ *
+ * const grades = await regApi.getCompleteGrades();
+ * console.log(graph.getAvailableCourses(getPassedCourseCodes(grades)).map((course) => course.courseCode));
+ * // Output: ['COM 2102-65', 'COM 3101-65', 'ART 1001-65']
+ * ```
+ */
+export class PrerequisiteGraph {
+	private nodes = new Map<string, CourseNode>();
+
+	private constructor() {}
+
+	public static fromStudyPlan(plan: StudyPlanData): PrerequisiteGraph {
+		const graph = new PrerequisiteGraph();
+		const courses = plan.categories.flatMap((category) => category.courses);
+
+		for (const course of courses) {
+			const node = graph.ensureNode(course.courseCode);
+			node.course ??= course;
+		}
+
+		for (const course of courses) {
+			const node = graph.ensureNode(course.courseCode);
+
+			for (const prerequisite of course.prerequisite ?? []) {
+				const prerequisiteNode = graph.ensureNode(prerequisite);
+				if (!node.prerequisites.includes(prerequisiteNode.courseCode)) {
+					node.prerequisites.push(prerequisiteNode.courseCode);
+					prerequisiteNode.dependents.push(node.courseCode);
+				}
+			}
+
+			for (const corequisite of course.corequisite ?? []) {
+				const corequisiteNode = graph.ensureNode(corequisite);
+				if (!node.corequisites.includes(corequisiteNode.courseCode)) {
+					node.corequisites.push(corequisiteNode.courseCode);
+				}
+			}
+		}
+
+		return graph;
+	}
+
+	public getNode(courseCode: string): CourseNode | undefined {
+		return this.nodes.get(normalizeCourseCode(courseCode));
+	}
+
+	public getNodes(): CourseNode[] {
+		return [...this.nodes.values()];
+	}
+
+	/**
+	 * รายวิชาบังคับก่อนทั้งหมดของวิชาที่ระบุ (รวมวิชาบังคับก่อนของวิชาบังคับก่อน)
+	 */
+	public getAllPrerequisites(courseCode: string): string[] {
+		const result = new Set<string>();
+		const stack = [...(this.getNode(courseCode)?.prerequisites ?? [])];
+
+		while (stack.length > 0) {
+			const code = stack.pop()!;
+			if (result.has(code)) continue;
+
+			result.add(code);
+			stack.push(...(this.getNode(code)?.prerequisites ?? []));
+		}
+
+		return [...result];
+	}
+
+	/**
+	 * ค้นหาวงจรของวิชาบังคับก่อน แต่ละวงจรคือรายการรหัสวิชาที่ขึ้นต่อกันเป็นวง
+	 */
+	public findCycles(): string[][] {
+		const cycles: string[][] = [];
+		const state = new Map<string, "visiting" | "done">();
+		const path: string[] = [];
+
+		const visit = (code: string) => {
+			state.set(code, "visiting");
+			path.push(code);
+
+			for (const prerequisite of this.nodes.get(normalizeCourseCode(code))?.prerequisites ?? []) {
+				const prerequisiteState = state.get(prerequisite);
+
+				if (prerequisiteState === "visiting") {
+					cycles.push(path.slice(path.indexOf(prerequisite)));
+				} else if (!prerequisiteState) {
+					visit(prerequisite);
+				}
+			}
+
+			path.pop();
+			state.set(code, "done");
+		};
+
+		for (const node of this.nodes.values()) {
+			if (!state.has(node.courseCode)) {
+				visit(node.courseCode);
+			}
+		}
+
+		return cycles;
+	}
+
+	public hasCycle(): boolean {
+		return this.findCycles().length > 0;
+	}
+
+	/**
+	 * เรียงรายวิชาให้วิชาบังคับก่อนมาก่อนเสมอ (Kahn's algorithm) โดยรักษาลำดับปี/ภาคตามแผนเมื่อเลือกได้
+	 * หากมีวงจรจะโยน `PrerequisiteCycleError` พร้อมรายการวิชาที่วนกัน (`cycle`)
+	 */
+	public topologicalOrder(): string[] {
+		const inDegree = new Map<string, number>();
+		for (const node of this.nodes.values()) {
+			inDegree.set(node.courseCode, node.prerequisites.length);
+		}
+
+		const planOrder = (code: string) => {
+			const course = this.nodes.get(normalizeCourseCode(code))?.course;
+			return course ? course.year * 10 + course.semester : 0;
+		};
+
+		const ready = [...inDegree.entries()].filter(([, degree]) => degree === 0).map(([code]) => code);
+		const order: string[] = [];
+
+		while (ready.length > 0) {
+			ready.sort((a, b) => planOrder(a) - planOrder(b));
+			const code = ready.shift()!;
+			order.push(code);
+
+			for (const dependent of this.nodes.get(normalizeCourseCode(code))?.dependents ?? []) {
+				const degree = (inDegree.get(dependent) ?? 0) - 1;
+				inDegree.set(dependent, degree);
+				if (degree === 0) {
+					ready.push(dependent);
+				}
+			}
+		}
+
+		if (order.length !== this.nodes.size) {
+			const cycle = this.findCycles()[0] ?? [];
+			throw new PrerequisiteCycleError(cycle);
+		}
+
+		return order;
+	}
+
+	/**
+	 * รายวิชาในแผนที่ยังไม่ผ่านและลงทะเบียนได้ในภาคเรียนถัดไป
+	 * (ผ่านวิชาบังคับก่อนครบแล้ว ส่วนวิชาเรียนควบคู่ต้องผ่านแล้วหรือลงทะเบียนได้พร้อมกัน)
+	 *
+	 * @param completed รหัสวิชาที่เรียนผ่านแล้ว (ได้จาก `getPassedCourseCodes(grades)`)
+	 */
+	public getAvailableCourses(completed: Iterable<string>): StudyPlanCourse[] {
+		const passed = new Set(Array.from(completed, normalizeCourseCode));
+
+		const eligible = new Set(
+			this.getNodes()
+				.filter((node) => node.course && !passed.has(normalizeCourseCode(node.courseCode)) && node.prerequisites.every((code) => passed.has(normalizeCourseCode(code))))
+				.map((node) => node.courseCode),
+		);
+
+		return this.getNodes()
+			.filter((node) => eligible.has(node.courseCode) && node.corequisites.every((code) => passed.has(normalizeCourseCode(code)) || eligible.has(code)))
+			.map((node) => node.course!)
+			.sort((a, b) => a.year - b.year || a.semester - b.semester);
+	}
+
+	private ensureNode(courseCode: string): CourseNode {
+		const key = normalizeCourseCode(courseCode);
+		let node = this.nodes.get(key);
+
+		if (!node) {
+			node = { courseCode: courseCode.trim(), prerequisites: [], corequisites: [], dependents: [] };
+			this.nodes.set(key, node);
+		}
+
+		return node;
+	}
+}
@@ -3,7 +3,24 @@ import type { Bus } from "./bus.api";
 import type { Reg } from "./reg.api";
 
 export interface ApiClientConfig {
+	/**
+	 * origin ที่ใช้แทนค่าเริ่มต้นของ {@link ApiServer} เช่น mirror สำหรับทดสอบ, mock server หรือ proxy
+	 *
+	 * @example
+	 * ```typescript
+	 * const client = new ApiClient(ApiServer.BUS, { server: "http://localhost:4000" });
+	 * ```
+	 */
 	server?: ApiServer | string;
+	/**
+	 * คีย์ของ `SessionManager` ที่ใช้เก็บ session แยกแต่ละผู้ใช้ (ค่าเริ่มต้น `"bus"` / `"reg"`)
+	 *
+	 * @example
+	 * ```typescript
+	 * const busApi = new ApiClient(ApiServer.BUS, { sessionKey: "bus:66143000" }).api();
+	 * ```
+	 */
+	sessionKey?: string;
 	timeout?: number;
 	headers?: Record<string, string>;
 	auth?: {
@@ -0,0 +1,191 @@
+export const BANGKOK_TIMEZONE = "Asia/Bangkok";
+
+/** ประเทศไทยใช้เวลา UTC+07:00 ตลอดปี (ไม่มี daylight saving) */
+export const BANGKOK_OFFSET_MS = 7 * 60 * 60 * 1000;
+
+const BUDDHIST_ERA_OFFSET = 543;
+
+export const THAI_MONTH_ABBREVIATIONS = ["ม.ค.", "ก.พ.", "มี.ค.", "เม.ย.", "พ.ค.", "มิ.ย.", "ก.ค.", "ส.ค.", "ก.ย.", "ต.ค.", "พ.ย.", "ธ.ค."] as const;
+
+export const THAI_MONTH_NAMES = ["มกราคม", "กุมภาพันธ์", "มีนาคม", "เมษายน", "พฤษภาคม", "มิถุนายน", "กรกฎาคม", "สิงหาคม", "กันยายน", "ตุลาคม", "พฤศจิกายน", "ธันวาคม"] as const;
+
+export interface CalendarDay {
+	/** ปี ค.ศ. */
+	year: number;
+	/** เดือน 1-12 */
+	month: number;
+	day: number;
+}
+
+export interface BangkokDateParts extends CalendarDay {
+	hours: number;
+	minutes: number;
+	seconds: number;
+	/** วันในสัปดาห์ (0 = อาทิตย์ ... 6 = เสาร์) */
+	weekday: number;
+}
+
+function pad(value: number): string {
+	return String(value).padStart(2, "0");
+}
+
+/**
+ * แปลงปี พ.ศ. เป็น ค.ศ. รองรับปีแบบย่อ 2 หลัก (`68` = พ.ศ. 2568) และคืนค่าเดิมหากเป็นปี ค.ศ. อยู่แล้ว
+ *
+ * @example
+ * ```typescript
+ * toChristianYear(2568); // Output: 2025
+ * toChristianYear(68); // Output: 2025
+ * toChristianYear(2025); // Output: 2025
+ * ```
+ */
+export function toChristianYear(year: number): number {
+	const buddhistYear = year < 100 ? year + 2500 : year;
+	return buddhistYear > 2400 ? buddhistYear - BUDDHIST_ERA_OFFSET : buddhistYear;
+}
+
+export function toBuddhistYear(christianYear: number): number {
+	return christianYear + BUDDHIST_ERA_OFFSET;
+}
+
+/**
+ * แปลงชื่อเดือนภาษาไทย (ตัวย่อหรือชื่อเต็ม) เป็นเลขเดือน 1-12
+ *
+ * @example
+ * ```typescript
+ * parseThaiMonth('ส.ค.'); // Output: 8
+ * parseThaiMonth('สิงหาคม'); // Output: 8
+ * ```
+ */
+export function parseThaiMonth(text: string): number | undefined {
+	const normalized = text.replace(/[\s.]/g, "");
+	if (!normalized) return undefined;
+
+	const index = THAI_MONTH_ABBREVIATIONS.findIndex((month) => month.replace(/\./g, "") === normalized);
+	if (index >= 0) return index + 1;
+
+	const fullIndex = THAI_MONTH_NAMES.findIndex((month) => month === normalized);
+	return fullIndex >= 0 ? fullIndex + 1 : undefined;
+}
+
+/**
+ * อ่านวันที่แบบไทยจากข้อความ เช่น `"14 ส.ค. 2567"`, `"14 ส.ค. 67"`, `"14 สิงหาคม 2567"` หรือ `"14/08/2567"`
+ *
+ * @example
+ * ```typescript
+ * parseThaiDate('พ, 14 ส.ค. 67');
+ * // Output: { year: 2024, month: 8, day: 14 }
+ * ```
+ */
+export function parseThaiDate(text: string): CalendarDay | undefined {
+	const thaiMatch = text.match(/(\d{1,2})\s*([ก-์][ก-์.]*)\s*(\d{2,4})/);
+	const numericMatch = text.match(/(\d{1,2})\/(\d{1,2})\/(\d{2,4})/);
+
+	let day: number | undefined;
+	let month: number | undefined;
+	let year: number | undefined;
+
+	if (thaiMatch?.[1] && thaiMatch[2] && thaiMatch[3]) {
+		day = parseInt(thaiMatch[1]);
+		month = parseThaiMonth(thaiMatch[2]);
+		year = parseInt(thaiMatch[3]);
+	} else if (numericMatch?.[1] && numericMatch[2] && numericMatch[3]) {
+		day = parseInt(numericMatch[1]);
+		month = parseInt(numericMatch[2]);
+		year = parseInt(numericMatch[3]);
+	}
+
+	if (!day || !month || !year || day > 31 || month > 12) {
+		return undefined;
+	}
+
+	return { year: toChristianYear(year), month, day };
+}
+
+/**
+ * สร้าง `Date` จากวันเวลาตามเวลาประเทศไทย โดยไม่ขึ้นกับ timezone ของเครื่องที่รัน
+ *
+ * @example
+ * ```typescript
+ * createBangkokDate(2025, 11, 15, 7, 30).toISOString();
+ * // Output: '2025-11-15T00:30:00.000Z'
+ * ```
+ */
+export function createBangkokDate(year: number, month: number, day: number, hours: number = 0, minutes: number = 0, seconds: number = 0): Date {
+	return new Date(Date.UTC(year, month - 1, day, hours, minutes, seconds) - BANGKOK_OFFSET_MS);
+}
+
+/**
+ * อ่านวันเวลาแบบ `YYYY-MM-DD` หรือ `YYYY-MM-DDTHH:mm[:ss]` ที่ไม่ระบุ timezone โดยถือเป็นเวลาประเทศไทย
+ * หากข้อความระบุ timezone มาเอง (`Z` หรือ `+hh:mm`) จะใช้ตามนั้น
+ *
+ * @example
+ * ```typescript
+ * parseBangkokDateTime('2025-11-15 07:30:00')?.toISOString();
+ * // Output: '2025-11-15T00:30:00.000Z'
+ * ```
+ */
+export function parseBangkokDateTime(text: string): Date | undefined {
+	const value = text.trim();
+
+	if (/(?:Z|[+-]\d{2}:?\d{2})$/i.test(value)) {
+		const date = new Date(value);
+		return isNaN(date.getTime()) ? undefined : date;
+	}
+
+	const match = value.match(/^(\d{4})-(\d{1,2})-(\d{1,2})(?:[T\s](\d{1,2}):(\d{2})(?::(\d{2}))?)?/);
+	if (!match?.[1] || !match[2] || !match[3]) {
+		return undefined;
+	}
+
+	return createBangkokDate(parseInt(match[1]), parseInt(match[2]), parseInt(match[3]), parseInt(match[4] || "0"), parseInt(match[5] || "0"), parseInt(match[6] || "0"));
+}
+
+/**
+ * แยกส่วนประกอบของ `Date` ตามเวลาประเทศไทย ใช้แทน `getFullYear()`/`getHours()`/`getDay()` ที่อิง timezone ของเครื่อง
+ *
+ * @example
+ * ```typescript
+ * getBangkokDateParts(new Date('2025-11-14T17:30:00Z'));
+ * // Output: { year: 2025, month: 11, day: 15, hours: 0, minutes: 30, seconds: 0, weekday: 6 }
+ * ```
+ */
+export function getBangkokDateParts(date: Date): BangkokDateParts {
+	const shifted = new Date(date.getTime() + BANGKOK_OFFSET_MS);
+
+	return {
+		year: shifted.getUTCFullYear(),
+		month: shifted.getUTCMonth() + 1,
+		day: shifted.getUTCDate(),
+		hours: shifted.getUTCHours(),
+		minutes: shifted.getUTCMinutes(),
+		seconds: shifted.getUTCSeconds(),
+		weekday: shifted.getUTCDay(),
+	};
+}
+
+/**
+ * เวลาเริ่มต้นของวัน (00:00 เวลาประเทศไทย) ของ `date` เลื่อนไป `offsetDays` วัน
+ */
+export function startOfBangkokDay(date: Date, offsetDays: number = 0): Date {
+	const { year, month, day } = getBangkokDateParts(date);
+	return createBangkokDate(year, month, day + offsetDays);
+}
+
+/** วันที่ตามเวลาประเทศไทยรูปแบบ `YYYY-MM-DD` */
+export function formatBangkokDate(date: Date): string {
+	const { year, month, day } = getBangkokDateParts(date);
+	return `${year}-${pad(month)}-${pad(day)}`;
+}
+
+/** เดือนตามเวลาประเทศไทยรูปแบบ `YYYY-MM` */
+export function formatBangkokMonth(date: Date): string {
+	const { year, month } = getBangkokDateParts(date);
+	return `${year}-${pad(month)}`;
+}
+
+/** เวลาตามเวลาประเทศไทยรูปแบบ `HH:mm` (หรือ `HH.mm` เมื่อระบุ `separator`) */
+export function formatBangkokTime(date: Date, separator: string = ":"): string {
+	const { hours, minutes } = getBangkokDateParts(date);
+	return `${pad(hours)}${separator}${pad(minutes)}`;
+}
@@ -0,0 +1,174 @@
+import { randomUUID } from "node:crypto";
+import { ApiClient, ApiServer, SessionManager } from "../api";
+import type { BusApi, RegApi } from "../api/types";
+import { createHash } from "../api/utilities/crypto-utils";
+import { logger } from "./logger";
+
+interface ApiPoolConfig {
+	busServer?: string;
+	regServer?: string;
+	idleTimeout: number;
+	sweepInterval: number;
+	maxEntries: number;
+}
+
+interface PooledApis {
+	busApi: BusApi;
+	regApi: RegApi;
+	busSessionKey: string;
+	regSessionKey: string;
+	lastUsed: number;
+	/** จำนวนคำขอที่กำลังใช้ instance นี้อยู่ (ยังไม่เรียก `release()`) ห้ามทำลายระหว่างนี้ */
+	activeCount: number;
+}
+
+export interface AcquiredApis {
+	busApi: BusApi;
+	regApi: RegApi;
+	release: () => void;
+}
+
+export class ApiInstancePool {
+	private entries = new Map<string, PooledApis>();
+	private sweepTimer: ReturnType<typeof setInterval> | null = null;
+	private readonly config: ApiPoolConfig;
+
+	constructor(config: Partial<ApiPoolConfig> = {}) {
+		this.config = {
+			busServer: config.busServer,
+			regServer: config.regServer,
+			idleTimeout: config.idleTimeout ?? 15 * 60 * 1000,
+			sweepInterval: config.sweepInterval ?? 60 * 1000,
+			maxEntries: config.maxEntries ?? 500,
+		};
+	}
+
+	public start(): void {
+		if (this.sweepTimer) return;
+
+		this.sweepTimer = setInterval(() => this.evictIdle(), this.config.sweepInterval);
+		this.sweepTimer.unref?.();
+	}
+
+	public stop(): void {
+		if (this.sweepTimer) {
+			clearInterval(this.sweepTimer);
+			this.sweepTimer = null;
+		}
+
+		for (const key of [...this.entries.keys()]) {
+			this.evict(key);
+		}
+	}
+
+	/**
+	 * คืน Bus/Reg ของผู้ใช้ที่ยืนยันตัวตนแล้วจาก pool (สร้างใหม่ถ้ายังไม่มี)
+	 * ถ้าไม่ระบุ token จะได้ instance ชั่วคราวที่ถูกทำลายเมื่อเรียก `release()`
+	 * instance ที่ยังไม่ถูก `release()` จะไม่ถูกคืนพื้นที่ แม้ pool เต็มหรือเกินเวลา idle
+	 */
+	public acquire(token?: string | null): AcquiredApis {
+		if (!token) {
+			const entry = this.createEntry(`anonymous:${randomUUID()}`);
+			return {
+				busApi: entry.busApi,
+				regApi: entry.regApi,
+				release: () => this.destroyEntry(entry),
+			};
+		}
+
+		const key = createHash(token);
+		let entry = this.entries.get(key);
+
+		if (!entry) {
+			if (this.entries.size >= this.config.maxEntries) {
+				this.evictLeastRecentlyUsed();
+			}
+
+			entry = this.createEntry(`user:${key}`);
+			this.entries.set(key, entry);
+		}
+
+		entry.lastUsed = Date.now();
+		entry.activeCount++;
+		let released = false;
+
+		return {
+			busApi: entry.busApi,
+			regApi: entry.regApi,
+			release: () => {
+				if (released) return;
+				released = true;
+				entry.activeCount--;
+				entry.lastUsed = Date.now();
+			},
+		};
+	}
+
+	public evictIdle(now: number = Date.now()): number {
+		let evicted = 0;
+
+		for (const [key, entry] of this.entries) {
+			if (entry.activeCount === 0 && now - entry.lastUsed > this.config.idleTimeout) {
+				this.evict(key);
+				evicted++;
+			}
+		}
+
+		if (evicted > 0) {
+			logger.debug(`Evicted ${evicted} idle API instances`, { remaining: this.entries.size });
+		}
+
+		return evicted;
+	}
+
+	public getStats(): { size: number; maxEntries: number; idleTimeout: number } {
+		return {
+			size: this.entries.size,
+			maxEntries: this.config.maxEntries,
+			idleTimeout: this.config.idleTimeout,
+		};
+	}
+
+	private createEntry(id: string): PooledApis {
+		const busSessionKey = `bus:${id}`;
+		const regSessionKey = `reg:${id}`;
+
+		return {
+			busApi: new ApiClient(ApiServer.BUS, { server: this.config.busServer, sessionKey: busSessionKey }).api(),
+			regApi: new ApiClient(ApiServer.REG, { server: this.config.regServer, sessionKey: regSessionKey }).api(),
+			busSessionKey,
+			regSessionKey,
+			lastUsed: Date.now(),
+			activeCount: 0,
+		};
+	}
+
+	private evictLeastRecentlyUsed(): void {
+		let oldestKey: string | null = null;
+		let oldestTime = Infinity;
+
+		for (const [key, entry] of this.entries) {
+			if (entry.activeCount === 0 && entry.lastUsed < oldestTime) {
+				oldestTime = entry.lastUsed;
+				oldestKey = key;
+			}
+		}
+
+		if (oldestKey) {
+			this.evict(oldestKey);
+		}
+	}
+
+	private evict(key: string): void {
+		const entry = this.entries.get(key);
+		if (!entry) return;
+
+		this.entries.delete(key);
+		this.destroyEntry(entry);
+	}
+
+	private destroyEntry(entry: PooledApis): void {
+		SessionManager.removeInstance(entry.busSessionKey);
+		SessionManager.removeInstance(entry.regSessionKey);
+	}
+}
@@ -0,0 +1,276 @@
+import {
+	ApiClient,
+	ApiServer,
+	BookingConfirmationError,
+	NotLoggedInError,
+	SessionExpiredError,
+	createBangkokDate,
+	formatBangkokDate,
+	getBangkokDateParts,
+	getBusDestinationType,
+	startOfBangkokDay,
+	type AvailableBusSchedule,
+} from "../api";
+import type { BusApi } from "../api/types";
+import { logger } from "./logger";
+import { PersistentStorage, type BookingLogEntry, type BookingRule } from "./storage/persistent-storage";
+
+interface BusSchedulerConfig {
+	busServer?: string;
+	pollInterval: number;
+	/** จำนวนเดือนถัดจากเดือนปัจจุบันที่ต้องตรวจหารอบรถ */
+	monthsAhead: number;
+}
+
+export interface BookingRunResult {
+	openMonths: string[];
+	entries: BookingLogEntry[];
+	/** `true` เมื่อหยุดกลางคันเพราะ session ของผู้ใช้หมดอายุ */
+	sessionExpired: boolean;
+}
+
+const storage = PersistentStorage.getInstance();
+
+/** จองรอบเดิมไม่สำเร็จครบจำนวนนี้แล้วจะไม่ลองอีก */
+const MAX_BOOKING_ATTEMPTS = 5;
+/** ระยะรอก่อนลองจองรอบเดิมอีกครั้ง เพิ่มเป็นสองเท่าทุกครั้งที่ไม่สำเร็จ */
+const BOOKING_RETRY_DELAY_MS = 60 * 60 * 1000;
+
+export function matchesBookingRule(rule: BookingRule, schedule: AvailableBusSchedule): boolean {
+	return (
+		rule.enabled &&
+		schedule.canReserve &&
+		schedule.destinationType === rule.destinationType &&
+		getBangkokDateParts(schedule.date).weekday === rule.weekday &&
+		schedule.departureTime >= rule.earliestTime &&
+		schedule.departureTime <= rule.latestTime
+	);
+}
+
+function isBookingBackedOff(username: string, schedule: AvailableBusSchedule): boolean {
+	const attempt = storage.getBookingAttempt(username, schedule.id, schedule.scheduleDate);
+	if (!attempt) return false;
+
+	return attempt.failures >= MAX_BOOKING_ATTEMPTS || Date.now() - attempt.lastFailureAt < BOOKING_RETRY_DELAY_MS * 2 ** (attempt.failures - 1);
+}
+
+/**
+ * จองรอบรถที่ตรงกับกฎของผู้ใช้ในเดือนปัจจุบันและเดือนถัดไป แล้วบันทึกผลลง `PersistentStorage`
+ * แต่ละกฎจองได้วันละหนึ่งรอบ (รอบที่ออกเร็วที่สุดในช่วงเวลาของกฎ) และข้ามวันที่ผู้ใช้มีการจองไปปลายทางนั้นอยู่แล้ว
+ * รอบที่จองไม่สำเร็จจะรอนานขึ้นทุกครั้งก่อนลองใหม่ และหยุดทันทีเมื่อ session ของผู้ใช้หมดอายุ
+ */
+export async function runBookingRules(
+	busApi: BusApi,
+	username: string,
+	cookies: string | string[],
+	rules: BookingRule[],
+	options: { monthsAhead?: number; now?: Date } = {},
+): Promise<BookingRunResult> {
+	const now = options.now ?? new Date();
+	const today = startOfBangkokDay(now);
+	const entries: BookingLogEntry[] = [];
+	const reserved = new Set<string>();
+	let openMonths: string[] = [];
+	let schedules: AvailableBusSchedule[] = [];
+
+	const record = (entry: Omit<BookingLogEntry, "username" | "timestamp">) => {
+		const logEntry: BookingLogEntry = { ...entry, username, timestamp: Date.now() };
+		storage.addBookingLog(logEntry);
+		entries.push(logEntry);
+	};
+
+	storage.cleanupBookingAttempts(formatBangkokDate(today));
+
+	try {
+		const { year, month } = getBangkokDateParts(now);
+		const lastDay = createBangkokDate(year, month + (options.monthsAhead ?? 1) + 1, 0);
+		const available = await busApi.getAvailableBusesInRange(today, lastDay, cookies);
+		const { reservations } = await busApi.getAllReservations({ from: today }, cookies);
+
+		schedules = available.availableSchedules.filter((schedule) => schedule.date >= today).sort((a, b) => a.date.getTime() - b.date.getTime());
+		openMonths = [...new Set(schedules.map((schedule) => schedule.scheduleDate.slice(0, 7)))];
+
+		for (const reservation of reservations) {
+			reserved.add(`${formatBangkokDate(reservation.date)}:${getBusDestinationType(reservation.destination.type)}`);
+		}
+	} catch (error) {
+		if (error instanceof SessionExpiredError || error instanceof NotLoggedInError) {
+			for (const rule of rules) {
+				record({ ruleId: rule.id, status: "session_expired", message: error.message });
+			}
+			return { openMonths, entries, sessionExpired: true };
+		}
+		throw error;
+	}
+
+	for (const rule of rules) {
+		const earliestByDate = new Map<string, AvailableBusSchedule>();
+
+		for (const schedule of schedules) {
+			const date = formatBangkokDate(schedule.date);
+			if (matchesBookingRule(rule, schedule) && !earliestByDate.has(date)) {
+				earliestByDate.set(date, schedule);
+			}
+		}
+
+		for (const [date, schedule] of earliestByDate) {
+			const reservedKey = `${date}:${schedule.destinationType}`;
+			if (reserved.has(reservedKey) || isBookingBackedOff(username, schedule)) continue;
+
+			const target = {
+				ruleId: rule.id,
+				scheduleId: schedule.id,
+				scheduleDate: schedule.scheduleDate,
+				departureTime: schedule.departureTime,
+				destinationType: schedule.destinationType,
+			};
+
+			const fail = (message: string) => {
+				const previous = storage.getBookingAttempt(username, schedule.id, schedule.scheduleDate);
+				const attempt = storage.recordBookingFailure(username, schedule.id, schedule.scheduleDate, message);
+
+				if (previous?.lastMessage !== message || attempt.failures === MAX_BOOKING_ATTEMPTS) {
+					record({
+						...target,
+						status: "failed",
+						message: attempt.failures === MAX_BOOKING_ATTEMPTS ? `${message} (giving up after ${attempt.failures} attempts)` : message,
+					});
+				}
+			};
+
+			const succeed = (status: "booked" | "confirmed", message?: string) => {
+				reserved.add(reservedKey);
+				storage.clearBookingAttempt(username, schedule.id, schedule.scheduleDate);
+				record({ ...target, status, message });
+			};
+
+			try {
+				const response = await busApi.bookBus(schedule.id, schedule.scheduleDate, schedule.destinationType, cookies, rule.oneClick);
+
+				if (Number(response.data) === 0) {
+					fail("Reservation rejected by server");
+				} else {
+					succeed(rule.oneClick ? "confirmed" : "booked");
+				}
+			} catch (error) {
+				if (error instanceof SessionExpiredError || error instanceof NotLoggedInError) {
+					record({ ...target, status: "session_expired", message: error.message });
+					return { openMonths, entries, sessionExpired: true };
+				}
+
+				const message = error instanceof Error ? error.message : String(error);
+				if (error instanceof BookingConfirmationError) {
+					succeed("booked", message);
+				} else {
+					fail(message);
+				}
+			}
+		}
+	}
+
+	return { openMonths, entries, sessionExpired: false };
+}
+
+/**
+ * ตัวจองรถอัตโนมัติที่ทำงานอยู่ใน CLI server
+ * ตรวจรอบรถตามกฎที่เก็บไว้ใน `PersistentStorage` เป็นระยะ โดยใช้ session ของผู้ใช้ที่ login ผ่าน `/bus/login`
+ */
+export class BusBookingScheduler {
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private running = false;
+	private readonly busApi: BusApi;
+	private readonly knownMonths = new Map<string, Set<string>>();
+	private readonly config: BusSchedulerConfig;
+
+	constructor(config: Partial<BusSchedulerConfig> = {}) {
+		this.config = {
+			busServer: config.busServer,
+			pollInterval: config.pollInterval ?? 30 * 60 * 1000,
+			monthsAhead: config.monthsAhead ?? 1,
+		};
+		this.busApi = new ApiClient(ApiServer.BUS, { server: this.config.busServer, sessionKey: "bus:scheduler" }).api();
+	}
+
+	public start(): void {
+		if (this.timer) return;
+
+		this.timer = setInterval(() => void this.runOnce(), this.config.pollInterval);
+		this.timer.unref?.();
+		logger.info("Bus auto-booking scheduler started", { pollInterval: this.config.pollInterval });
+	}
+
+	public stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
+
+	public async runOnce(): Promise<BookingLogEntry[]> {
+		if (this.running) return [];
+		this.running = true;
+
+		try {
+			const usernames = [
+				...new Set(
+					storage
+						.getBookingRules()
+						.filter((rule) => rule.enabled)
+						.map((rule) => rule.username),
+				),
+			];
+			const entries: BookingLogEntry[] = [];
+
+			for (const username of usernames) {
+				entries.push(...(await this.runForUser(username)));
+			}
+
+			return entries;
+		} finally {
+			this.running = false;
+		}
+	}
+
+	public async runForUser(username: string): Promise<BookingLogEntry[]> {
+		const rules = storage.getBookingRules(username).filter((rule) => rule.enabled);
+		const session = storage.getSession(username);
+
+		if (rules.length === 0) return [];
+
+		if (!session?.cookies) {
+			logger.debug("Skipping auto-booking: no stored bus session", { username });
+			return [];
+		}
+
+		if (session.expiredAt) {
+			logger.debug("Skipping auto-booking: stored bus session expired, waiting for a new login", { username });
+			return [];
+		}
+
+		try {
+			const result = await runBookingRules(this.busApi, username, session.cookies, rules, { monthsAhead: this.config.monthsAhead });
+
+			if (result.sessionExpired) {
+				storage.setSession(username, { ...session, expiredAt: Date.now() });
+			}
+			const known = this.knownMonths.get(username) ?? new Set<string>();
+
+			for (const month of result.openMonths) {
+				if (!known.has(month)) {
+					known.add(month);
+					logger.info("Bus booking month opened", { username, month });
+				}
+			}
+			this.knownMonths.set(username, known);
+
+			if (result.entries.length > 0) {
+				logger.info("Auto-booking run finished", { username, entries: result.entries.map((entry) => `${entry.scheduleDate ?? "-"} ${entry.status}`) });
+			}
+
+			return result.entries;
+		} catch (error) {
+			logger.error("Auto-booking run failed", { username, error: error instanceof Error ? error.message : String(error) });
+			return [];
+		}
+	}
+}
@@ -0,0 +1,148 @@
+import axios from "axios";
+import { ApiClient, ApiServer, ConfirmationWatcher, NotLoggedInError, SessionExpiredError, type ConfirmationEvent } from "../api";
+import type { BusApi } from "../api/types";
+import { logger } from "./logger";
+import { resolveWebhookUrl } from "./webhook";
+import { PersistentStorage, type ConfirmationSettings } from "./storage/persistent-storage";
+
+interface ConfirmationServiceConfig {
+	busServer?: string;
+	pollInterval: number;
+	webhookTimeout: number;
+}
+
+const storage = PersistentStorage.getInstance();
+
+export function toWebhookPayload(username: string, event: ConfirmationEvent) {
+	return {
+		event: event.type,
+		username,
+		reservation: {
+			date: event.reservation.date.toISOString(),
+			departureTime: event.reservation.departureTime,
+			destination: event.reservation.destination.type,
+			status: event.reservation.confirmation.status,
+		},
+		deadline: event.deadline.toISOString(),
+		timestamp: event.timestamp.toISOString(),
+		error: event.error,
+	};
+}
+
+/**
+ * ตรวจการยืนยันการจองของผู้ใช้ที่เปิดใช้งานไว้ใน `PersistentStorage` โดยใช้ `ConfirmationWatcher` หนึ่งตัวต่อผู้ใช้
+ * ส่งเหตุการณ์ไปยัง webhook ของผู้ใช้ (ถ้ามี) และบันทึกลง log
+ */
+export class ConfirmationService {
+	private timer: ReturnType<typeof setInterval> | null = null;
+	private running = false;
+	private readonly busApi: BusApi;
+	private readonly watchers = new Map<string, ConfirmationWatcher>();
+	private readonly config: ConfirmationServiceConfig;
+
+	constructor(config: Partial<ConfirmationServiceConfig> = {}) {
+		this.config = {
+			busServer: config.busServer,
+			pollInterval: config.pollInterval ?? 5 * 60 * 1000,
+			webhookTimeout: config.webhookTimeout ?? 10 * 1000,
+		};
+		this.busApi = new ApiClient(ApiServer.BUS, { server: this.config.busServer, sessionKey: "bus:confirmation" }).api();
+	}
+
+	public start(): void {
+		if (this.timer) return;
+
+		this.timer = setInterval(() => void this.runOnce(), this.config.pollInterval);
+		this.timer.unref?.();
+		logger.info("Reservation confirmation watcher started", { pollInterval: this.config.pollInterval });
+	}
+
+	public stop(): void {
+		if (this.timer) {
+			clearInterval(this.timer);
+			this.timer = null;
+		}
+	}
+
+	public async runOnce(): Promise<ConfirmationEvent[]> {
+		if (this.running) return [];
+		this.running = true;
+
+		try {
+			const enabled = storage.getAllConfirmationSettings().filter((settings) => settings.enabled);
+			const enabledUsers = new Set(enabled.map((settings) => settings.username));
+
+			for (const username of this.watchers.keys()) {
+				if (!enabledUsers.has(username)) {
+					this.watchers.delete(username);
+				}
+			}
+
+			const events: ConfirmationEvent[] = [];
+			for (const settings of enabled) {
+				events.push(...(await this.checkUser(settings)));
+			}
+
+			return events;
+		} finally {
+			this.running = false;
+		}
+	}
+
+	private async checkUser(settings: ConfirmationSettings): Promise<ConfirmationEvent[]> {
+		const session = storage.getSession(settings.username);
+		if (!session?.cookies) {
+			logger.debug("Skipping confirmation check: no stored bus session", { username: settings.username });
+			return [];
+		}
+
+		const watcher = this.getWatcher(settings.username);
+		watcher.configure({ cookies: session.cookies, autoConfirm: settings.autoConfirm, reminderMinutes: settings.reminderMinutes });
+
+		try {
+			return await watcher.check();
+		} catch (error) {
+			if (error instanceof SessionExpiredError || error instanceof NotLoggedInError) {
+				logger.warn("Confirmation check skipped: bus session expired", { username: settings.username });
+			} else {
+				logger.error("Confirmation check failed", { username: settings.username, error: error instanceof Error ? error.message : String(error) });
+			}
+			return [];
+		}
+	}
+
+	private getWatcher(username: string): ConfirmationWatcher {
+		let watcher = this.watchers.get(username);
+
+		if (!watcher) {
+			watcher = new ConfirmationWatcher(this.busApi, { onEvent: (event) => this.deliver(username, event) });
+			this.watchers.set(username, watcher);
+		}
+
+		return watcher;
+	}
+
+	private async deliver(username: string, event: ConfirmationEvent): Promise<void> {
+		const payload = toWebhookPayload(username, event);
+		logger.info("Reservation confirmation event", payload);
+
+		const settings = storage.getConfirmationSettings(username);
+		if (!settings?.webhookUrl) return;
+
+		try {
+			const target = await resolveWebhookUrl(settings.webhookUrl);
+
+			await axios.post(target.url.toString(), payload, {
+				timeout: this.config.webhookTimeout,
+				maxRedirects: 0,
+				lookup: (_hostname, _options, callback) => callback(null, target.address, target.family),
+			});
+		} catch (error) {
+			logger.warn("Failed to deliver confirmation webhook", {
+				username,
+				event: event.type,
+				error: error instanceof Error ? error.message : String(error),
+			});
+		}
+	}
+}
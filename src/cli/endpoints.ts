@@ -1,16 +1,41 @@
+import { randomUUID } from "node:crypto";
 import type { BusApi, RegApi } from "../api/types";
+import { ConfirmationStatus, type ReservationFilter } from "../api/bus/parser/schedule";
 import { UserType } from "../api/bus.api";
+import { BUS_DESTINATIONS, isBusDestination, isBusDestinationType, type BusDestinationType } from "../api/bus/parser/stops";
+import {
+	BookingConfirmationError,
+	InvalidArgumentError,
+	InvalidCredentialsError,
+	LoginAttemptsExceededError,
+	LoginBlockedError,
+	NotLoggedInError,
+	SessionExpiredError,
+	UnexpectedResponseError,
+	UpstreamChangedError,
+	UpstreamServerError,
+} from "../api/errors";
+import { simulateGpa, VALID_GRADES, type HypotheticalGrade, type RepeatPolicy } from "../api/reg/gpa";
+import type { ActivityRequirementOptions } from "../api/reg/activity-hours";
 import { decryptCredentials, validateEncryptedCredentials } from "../api/utilities/crypto-utils";
+import { createBangkokDate } from "../api/utilities/thai-date";
+import { runBookingRules } from "./bus-scheduler";
 import { logger } from "./logger";
-import { PersistentStorage } from "./storage/persistent-storage";
+import { resolveWebhookUrl, UnsafeWebhookUrlError } from "./webhook";
+import { PersistentStorage, type BookingRule, type ConfirmationSettings } from "./storage/persistent-storage";
 
 export const API_ENDPOINTS = {
 	health: "GET /health",
 	bus: {
 		login: "POST /bus/login",
 		loginWith: "POST /bus/login-with",
-		availableBuses: "GET /bus/available",
+		availableBuses: "GET /bus/available?month={value}",
+		availableBusesInRange: "GET /bus/available?from={YYYY-MM-DD}&to={YYYY-MM-DD}",
+		busStops: "GET /bus/stops",
 		schedule: "GET /bus/schedule?page={number}&perPage={number}",
+		travelStats: "GET /bus/stats?from={YYYY-MM-DD}&to={YYYY-MM-DD}&destination={แม่ริม|เวียงบัว}",
+		allReservations:
+			"GET /bus/schedule?all=true&from={YYYY-MM-DD}&to={YYYY-MM-DD}&destination={แม่ริม|เวียงบัว}&status={confirmed,pending,overtime}&traveled={true|false|none}",
 		confirmReservation: "POST /bus/confirm",
 		unconfirmReservation: "POST /bus/unconfirm",
 		deleteReservation: "POST /bus/delete",
@@ -19,11 +44,27 @@ export const API_ENDPOINTS = {
 		validateSession: "GET /bus/validate",
 		ticketQRCode: "GET /bus/ticket/qrcode?ticketId={number}",
 		ticketInfo: "GET /bus/ticket/info?ticketId={number}",
+		ticketBundle: "GET /bus/ticket/bundle?ticketId={number}",
+		upcomingTickets: "GET /bus/tickets?today={true|false}",
+		autoBookRules: "GET /bus/autobook/rules",
+		saveAutoBookRule: "POST /bus/autobook/rules",
+		deleteAutoBookRule: "POST /bus/autobook/rules/delete",
+		autoBookHistory: "GET /bus/autobook/history?limit={number}",
+		runAutoBook: "POST /bus/autobook/run",
+		confirmationSettings: "GET /bus/confirmation/settings",
+		saveConfirmationSettings: "POST /bus/confirmation/settings",
 	},
 	reg: {
 		login: "POST /reg/login",
 		studentInfo: "GET /reg/student",
-		timetable: "GET /reg/timetable",
+		timetable: "GET /reg/timetable?academicYear={year}&semester={number}",
+		timetableTerms: "GET /reg/timetable/terms",
+		exams: "GET /reg/exams?academicYear={year}&semester={number}",
+		grades: "GET /reg/grades",
+		activity: "GET /reg/activity",
+		activityProgress: "GET /reg/activity/progress",
+		studyPlan: "GET /reg/studyplan",
+		simulateGrades: "POST /reg/grades/simulate",
 	},
 } as const;
 
@@ -53,6 +94,10 @@ function generateToken(username: string): string {
 	return token;
 }
 
+function regSessionKey(username: string): string {
+	return `reg:${username}`;
+}
+
 function validateToken(token: string): { username: string } | null {
 	const tokenData = storage.getToken(token);
 	if (!tokenData) return null;
@@ -60,7 +105,7 @@ function validateToken(token: string): { username: string } | null {
 	return { username: tokenData.username };
 }
 
-function extractBearerToken(headers: Record<string, string>): string | null {
+export function extractBearerToken(headers: Record<string, string>): string | null {
 	const authHeader = headers.authorization || headers.Authorization;
 	if (!authHeader || !authHeader.startsWith("Bearer ")) {
 		return null;
@@ -90,42 +135,222 @@ function handleApiError(error: unknown): never {
 		throw error;
 	}
 
+	if (error instanceof InvalidArgumentError) {
+		throw new ApiError(error.message, 400, "validation");
+	}
+
+	if (error instanceof InvalidCredentialsError) {
+		throw new ApiError(error.message, 401, "auth");
+	}
+
+	if (error instanceof LoginAttemptsExceededError) {
+		throw new ApiError(error.message, 429, "auth");
+	}
+
+	if (error instanceof LoginBlockedError) {
+		throw new ApiError(error.message, 403, "auth");
+	}
+
+	if (error instanceof SessionExpiredError) {
+		throw new ApiError("Session expired. Please login again", 401, "session");
+	}
+
+	if (error instanceof NotLoggedInError) {
+		throw new ApiError("Authentication required. Please login first", 401, "auth");
+	}
+
+	if (error instanceof BookingConfirmationError) {
+		throw new ApiError(error.message, 502, "server");
+	}
+
+	if (error instanceof UpstreamServerError || error instanceof UpstreamChangedError || error instanceof UnexpectedResponseError) {
+		throw new ApiError(error.message, 502, "server");
+	}
+
 	if (error instanceof Error) {
-		const message = error.message;
-		const messageLower = message.toLowerCase();
+		const messageLower = error.message.toLowerCase();
 
-		if (message.includes("กรุณาป้อนรหัสประจำตัวและรหัสผ่านให้ถูกต้อง")) {
-			throw new ApiError(message, 401, "auth");
+		if (messageLower.includes("timeout") || messageLower.includes("network") || messageLower.includes("econnrefused")) {
+			throw new ApiError("Network error. Please try again", 503, "network");
 		}
 
-		if (message.includes("ไม่สามารถเข้าสู่ระบบได้เนื่องจากระบุรหัสผิดเกิน")) {
-			throw new ApiError(message, 429, "auth");
+		throw new ApiError(error.message, 500, "unknown");
+	}
+
+	throw new ApiError("An unexpected error occurred", 500, "unknown");
+}
+
+function parseTermQuery(query?: URLSearchParams): { academicYear?: string; semester?: string } {
+	const academicYear = query?.get("academicYear") || undefined;
+	const semester = query?.get("semester") || undefined;
+
+	if ((academicYear && !semester) || (!academicYear && semester)) {
+		throw new ApiError("academicYear and semester must be provided together", 400, "validation");
+	}
+
+	if (academicYear && !/^\d{4}$/.test(academicYear)) {
+		throw new ApiError("academicYear must be a 4-digit Buddhist year", 400, "validation");
+	}
+
+	if (semester && !/^[1-3]$/.test(semester)) {
+		throw new ApiError("semester must be 1, 2 or 3", 400, "validation");
+	}
+
+	return { academicYear, semester };
+}
+
+function parseBookingRuleBody(body: unknown, username: string): BookingRule {
+	const data = (body ?? {}) as Partial<Omit<BookingRule, "username" | "createdAt">>;
+	const timePattern = /^([01]\d|2[0-3]):[0-5]\d$/;
+
+	if (typeof data.weekday !== "number" || !Number.isInteger(data.weekday) || data.weekday < 0 || data.weekday > 6) {
+		throw new ApiError("weekday must be an integer from 0 (Sunday) to 6 (Saturday)", 400, "validation");
+	}
+
+	if (!isBusDestinationType(data.destinationType)) {
+		throw new ApiError(`destinationType must be one of ${BUS_DESTINATIONS.map((destination) => `${destination.type} (${destination.name})`).join(", ")}`, 400, "validation");
+	}
+
+	const earliestTime = data.earliestTime ?? "00:00";
+	const latestTime = data.latestTime ?? "23:59";
+
+	if (!timePattern.test(earliestTime) || !timePattern.test(latestTime)) {
+		throw new ApiError("earliestTime and latestTime must be in HH:mm format", 400, "validation");
+	}
+
+	if (earliestTime > latestTime) {
+		throw new ApiError("earliestTime must not be later than latestTime", 400, "validation");
+	}
+
+	const existing = data.id ? storage.getBookingRule(data.id) : undefined;
+	if (data.id && existing?.username !== username) {
+		throw new ApiError("Booking rule not found", 404, "validation");
+	}
+
+	return {
+		id: existing?.id ?? randomUUID(),
+		username,
+		weekday: data.weekday,
+		destinationType: data.destinationType,
+		earliestTime,
+		latestTime,
+		oneClick: data.oneClick ?? false,
+		enabled: data.enabled ?? true,
+		createdAt: existing?.createdAt ?? Date.now(),
+	};
+}
+
+function parseTicketIdQuery(query?: URLSearchParams): number {
+	const ticketId = query?.get("ticketId");
+	if (!ticketId) {
+		throw new ApiError("ticketId parameter is required", 400, "validation");
+	}
+
+	if (!/^\d+$/.test(ticketId)) {
+		throw new ApiError("ticketId must be a number", 400, "validation");
+	}
+
+	return parseInt(ticketId);
+}
+
+function parseActivityRequirementQuery(query?: URLSearchParams): ActivityRequirementOptions {
+	const categoryRequiredHours: NonNullable<ActivityRequirementOptions["categoryRequiredHours"]> = {};
+
+	for (const category of ["university", "faculty", "major"] as const) {
+		const value = query?.get(category);
+		if (!value) continue;
+
+		if (!/^\d+$/.test(value)) {
+			throw new ApiError(`${category} must be a number of hours`, 400, "validation");
 		}
+		categoryRequiredHours[category] = parseInt(value);
+	}
+
+	return { categoryRequiredHours };
+}
 
-		if (messageLower.includes("invalid username or password") || messageLower.includes("login failed")) {
-			throw new ApiError(message, 401, "auth");
+function parseReservationFilterQuery(query?: URLSearchParams): ReservationFilter {
+	const filter: ReservationFilter = {};
+	const parseDate = (name: string) => {
+		const value = query?.get(name);
+		if (!value) return undefined;
+
+		const match = value.match(/^(\d{4})-(\d{2})-(\d{2})$/);
+		if (!match) {
+			throw new ApiError(`${name} must be in YYYY-MM-DD format`, 400, "validation");
 		}
+		return createBangkokDate(parseInt(match[1]!), parseInt(match[2]!), parseInt(match[3]!));
+	};
+
+	filter.from = parseDate("from");
+	filter.to = parseDate("to");
 
-		if (messageLower.includes("session expired") || messageLower.includes("please login again")) {
-			throw new ApiError("Session expired. Please login again", 401, "session");
+	const destination = query?.get("destination");
+	if (destination) {
+		if (!isBusDestination(destination)) {
+			throw new ApiError(`destination must be one of ${BUS_DESTINATIONS.map((item) => item.name).join(", ")}`, 400, "validation");
 		}
+		filter.destination = destination;
+	}
 
-		if (messageLower.includes("no authentication cookies") || messageLower.includes("no credentials available")) {
-			throw new ApiError("Authentication required. Please login first", 401, "auth");
+	const status = query?.get("status");
+	if (status) {
+		const statusMap: Record<string, ConfirmationStatus> = {
+			confirmed: ConfirmationStatus.CONFIRMED,
+			pending: ConfirmationStatus.PENDING,
+			overtime: ConfirmationStatus.OVERTIME,
+		};
+		filter.confirmationStatus = status.split(",").map((value) => {
+			const mapped = statusMap[value.trim()];
+			if (!mapped) {
+				throw new ApiError("status must be a comma-separated list of confirmed, pending or overtime", 400, "validation");
+			}
+			return mapped;
+		});
+	}
+
+	const traveled = query?.get("traveled");
+	if (traveled) {
+		if (traveled !== "true" && traveled !== "false" && traveled !== "none") {
+			throw new ApiError("traveled must be true, false or none", 400, "validation");
 		}
+		filter.traveled = traveled === "none" ? null : traveled === "true";
+	}
 
-		if (messageLower.includes("timeout") || messageLower.includes("network") || messageLower.includes("econnrefused")) {
-			throw new ApiError("Network error. Please try again", 503, "network");
+	return filter;
+}
+
+async function parseConfirmationSettingsBody(body: unknown, username: string): Promise<ConfirmationSettings> {
+	const data = (body ?? {}) as Partial<Omit<ConfirmationSettings, "username" | "updatedAt">>;
+	const existing = storage.getConfirmationSettings(username);
+
+	if (data.webhookUrl !== undefined && data.webhookUrl !== "") {
+		if (typeof data.webhookUrl !== "string") {
+			throw new ApiError("webhookUrl must be a string", 400, "validation");
 		}
 
-		if (messageLower.includes("unexpected response status") || messageLower.includes("failed to")) {
-			throw new ApiError(error.message, 502, "server");
+		try {
+			await resolveWebhookUrl(data.webhookUrl);
+		} catch (error) {
+			if (error instanceof UnsafeWebhookUrlError) {
+				throw new ApiError(error.message, 400, "validation");
+			}
+			throw error;
 		}
+	}
 
-		throw new ApiError(error.message, 500, "unknown");
+	if (data.reminderMinutes !== undefined && (typeof data.reminderMinutes !== "number" || data.reminderMinutes < 0)) {
+		throw new ApiError("reminderMinutes must be a non-negative number", 400, "validation");
 	}
 
-	throw new ApiError("An unexpected error occurred", 500, "unknown");
+	return {
+		username,
+		enabled: data.enabled ?? existing?.enabled ?? true,
+		autoConfirm: data.autoConfirm ?? existing?.autoConfirm ?? false,
+		webhookUrl: data.webhookUrl === "" ? undefined : (data.webhookUrl ?? existing?.webhookUrl),
+		reminderMinutes: data.reminderMinutes ?? existing?.reminderMinutes,
+		updatedAt: Date.now(),
+	};
 }
 
 export function createRoutes(busApi: BusApi, regApi: RegApi, _busApiFactory?: () => BusApi): RouteConfig[] {
@@ -152,6 +377,34 @@ export function createRoutes(busApi: BusApi, regApi: RegApi, _busApiFactory?: ()
 		throw new ApiError("Session expired. Please login again", 401, "session");
 	}
 
+	async function withRegSession<T>(headers: Record<string, string> | undefined, request: () => Promise<T>): Promise<T> {
+		const auth = authenticateRequest(headers || {});
+		if (!auth) {
+			throw new ApiError("Authentication required. Please login first", 401, "auth");
+		}
+
+		const key = regSessionKey(auth.username);
+		const storedSession = storage.getSession(key);
+		if (!storedSession) {
+			throw new ApiError("Registrar session not found. Please login via /reg/login", 401, "session");
+		}
+
+		const sessionManager = regApi.getSessionManager();
+		sessionManager.setSession(auth.username, "", storedSession.cookies);
+
+		try {
+			const result = await request();
+
+			storage.setSession(key, { ...storedSession, lastValidated: Date.now() });
+			return result;
+		} catch (error) {
+			if (error instanceof SessionExpiredError || error instanceof NotLoggedInError) {
+				storage.deleteSession(key);
+			}
+			throw error;
+		}
+	}
+
 	return [
 		{
 			method: "GET",
@@ -168,7 +421,7 @@ export function createRoutes(busApi: BusApi, regApi: RegApi, _busApiFactory?: ()
 					await busApi.validateSession();
 					busApiStatus = "connected";
 				} catch (error) {
-					if (error instanceof Error && error.message.includes("Authentication required")) {
+					if (error instanceof NotLoggedInError) {
 						busApiStatus = "connected";
 					} else {
 						busApiStatus = "error";
@@ -179,7 +432,7 @@ export function createRoutes(busApi: BusApi, regApi: RegApi, _busApiFactory?: ()
 					await regApi.getStudentInfo();
 					regApiStatus = "connected";
 				} catch (error) {
-					if (error instanceof Error && error.message.includes("Authentication required")) {
+					if (error instanceof NotLoggedInError) {
 						regApiStatus = "connected";
 					} else {
 						regApiStatus = "error";
@@ -310,6 +563,19 @@ export function createRoutes(busApi: BusApi, regApi: RegApi, _busApiFactory?: ()
 					const storedSession = storage.getSession(auth.username);
 					const sessionCookies = storedSession?.cookies;
 
+					if (query?.get("from") || query?.get("to")) {
+						const { from, to } = parseReservationFilterQuery(query);
+						if (!from || !to) {
+							throw new ApiError("from and to must be provided together", 400, "validation");
+						}
+
+						if (from > to) {
+							throw new ApiError("from must not be later than to", 400, "validation");
+						}
+
+						return await busApi.getAvailableBusesInRange(from, to, sessionCookies);
+					}
+
 					const monthParam = query?.get("month");
 					return await busApi.getAvailableBuses(monthParam || undefined, sessionCookies);
 				} catch (error) {
@@ -318,6 +584,17 @@ export function createRoutes(busApi: BusApi, regApi: RegApi, _busApiFactory?: ()
 			},
 			requiresAuth: true,
 		},
+		{
+			method: "GET",
+			path: "/bus/stops",
+			handler: async () => {
+				try {
+					return await busApi.getBusStopCatalog();
+				} catch (error) {
+					handleApiError(error);
+				}
+			},
+		},
 		{
 			method: "GET",
 			path: "/bus/schedule",
@@ -333,6 +610,10 @@ export function createRoutes(busApi: BusApi, regApi: RegApi, _busApiFactory?: ()
 					const storedSession = storage.getSession(auth.username);
 					const sessionCookies = storedSession?.cookies;
 
+					if (query?.get("all") === "true") {
+						return await busApi.getAllReservations(parseReservationFilterQuery(query), sessionCookies);
+					}
+
 					const pageParam = query?.get("page");
 					const perPageParam = query?.get("perPage");
 					const page = pageParam ? parseInt(pageParam, 10) : undefined;
@@ -353,6 +634,28 @@ export function createRoutes(busApi: BusApi, regApi: RegApi, _busApiFactory?: ()
 			},
 			requiresAuth: true,
 		},
+		{
+			method: "GET",
+			path: "/bus/stats",
+			handler: async (_body, query, headers) => {
+				try {
+					const auth = authenticateRequest(headers || {});
+					if (!auth) {
+						throw new ApiError("Authentication required. Please login first", 401, "auth");
+					}
+
+					await ensureValidSession(auth.username);
+
+					const storedSession = storage.getSession(auth.username);
+					const { from, to, destination } = parseReservationFilterQuery(query);
+
+					return await busApi.getTravelStatistics({ from, to, destination }, storedSession?.cookies);
+				} catch (error) {
+					handleApiError(error);
+				}
+			},
+			requiresAuth: true,
+		},
 		{
 			method: "POST",
 			path: "/bus/confirm",
@@ -483,7 +786,7 @@ export function createRoutes(busApi: BusApi, regApi: RegApi, _busApiFactory?: ()
 					const { scheduleId, scheduleDate, destinationType, oneClick } = body as {
 						scheduleId?: number;
 						scheduleDate?: string;
-						destinationType?: 1 | 2;
+						destinationType?: BusDestinationType;
 						oneClick?: boolean;
 					};
 					if (!scheduleId || !scheduleDate || !destinationType) {
@@ -542,13 +845,8 @@ export function createRoutes(busApi: BusApi, regApi: RegApi, _busApiFactory?: ()
 					const storedSession = storage.getSession(auth.username);
 					const sessionCookies = storedSession?.cookies;
 
-					const ticketId = query?.get("ticketId");
-					if (!ticketId) {
-						throw new ApiError("ticketId parameter is required", 400, "validation");
-					}
-
-					const showticketUrl = `/users/schedule/showticket/${ticketId}`;
-					const response = await busApi.getTicketQRCodeImage(showticketUrl, sessionCookies);
+					const ticketId = parseTicketIdQuery(query);
+					const response = await busApi.getTicketQRCodeImageById(ticketId, sessionCookies);
 					return response.data;
 				} catch (error) {
 					handleApiError(error);
@@ -571,20 +869,178 @@ export function createRoutes(busApi: BusApi, regApi: RegApi, _busApiFactory?: ()
 					const storedSession = storage.getSession(auth.username);
 					const sessionCookies = storedSession?.cookies;
 
-					const ticketId = query?.get("ticketId");
-					if (!ticketId) {
-						throw new ApiError("ticketId parameter is required", 400, "validation");
+					const ticketId = parseTicketIdQuery(query);
+					return await busApi.getTicketInfoById(ticketId, sessionCookies);
+				} catch (error) {
+					handleApiError(error);
+				}
+			},
+			requiresAuth: true,
+		},
+		{
+			method: "GET",
+			path: "/bus/ticket/bundle",
+			handler: async (_body, query, headers) => {
+				try {
+					const auth = authenticateRequest(headers || {});
+					if (!auth) {
+						throw new ApiError("Authentication required. Please login first", 401, "auth");
 					}
 
-					const showticketUrl = `/users/schedule/showticket/${ticketId}`;
-					const ticketInfo = await busApi.getTicketInfo(showticketUrl, sessionCookies);
-					return ticketInfo;
+					await ensureValidSession(auth.username);
+
+					const storedSession = storage.getSession(auth.username);
+					const sessionCookies = storedSession?.cookies;
+
+					const ticketId = parseTicketIdQuery(query);
+					return await busApi.getOfflineTicketBundleById(ticketId, sessionCookies);
+				} catch (error) {
+					handleApiError(error);
+				}
+			},
+			requiresAuth: true,
+		},
+		{
+			method: "GET",
+			path: "/bus/tickets",
+			handler: async (_body, query, headers) => {
+				try {
+					const auth = authenticateRequest(headers || {});
+					if (!auth) {
+						throw new ApiError("Authentication required. Please login first", 401, "auth");
+					}
+
+					await ensureValidSession(auth.username);
+
+					const storedSession = storage.getSession(auth.username);
+					const tickets = await busApi.getUpcomingTickets({ todayOnly: query?.get("today") === "true" }, storedSession?.cookies);
+					return { total: tickets.length, tickets };
 				} catch (error) {
 					handleApiError(error);
 				}
 			},
 			requiresAuth: true,
 		},
+		{
+			method: "GET",
+			path: "/bus/autobook/rules",
+			handler: (_body, _query, headers) => {
+				const auth = authenticateRequest(headers || {});
+				if (!auth) {
+					throw new ApiError("Authentication required. Please login first", 401, "auth");
+				}
+
+				return Promise.resolve({ rules: storage.getBookingRules(auth.username) });
+			},
+			requiresAuth: true,
+		},
+		{
+			method: "POST",
+			path: "/bus/autobook/rules",
+			handler: (body, _query, headers) => {
+				const auth = authenticateRequest(headers || {});
+				if (!auth) {
+					throw new ApiError("Authentication required. Please login first", 401, "auth");
+				}
+
+				const rule = parseBookingRuleBody(body, auth.username);
+				storage.setBookingRule(rule);
+				return Promise.resolve({ success: true, rule });
+			},
+			requiresAuth: true,
+		},
+		{
+			method: "POST",
+			path: "/bus/autobook/rules/delete",
+			handler: (body, _query, headers) => {
+				const auth = authenticateRequest(headers || {});
+				if (!auth) {
+					throw new ApiError("Authentication required. Please login first", 401, "auth");
+				}
+
+				const { id } = (body ?? {}) as { id?: string };
+				if (!id) {
+					throw new ApiError("Rule id is required", 400, "validation");
+				}
+
+				if (storage.getBookingRule(id)?.username !== auth.username || !storage.deleteBookingRule(id)) {
+					throw new ApiError("Booking rule not found", 404, "validation");
+				}
+
+				return Promise.resolve({ success: true });
+			},
+			requiresAuth: true,
+		},
+		{
+			method: "GET",
+			path: "/bus/autobook/history",
+			handler: (_body, query, headers) => {
+				const auth = authenticateRequest(headers || {});
+				if (!auth) {
+					throw new ApiError("Authentication required. Please login first", 401, "auth");
+				}
+
+				const limitParam = query?.get("limit");
+				const limit = limitParam ? parseInt(limitParam, 10) : 50;
+
+				if (isNaN(limit) || limit < 1) {
+					throw new ApiError("limit must be a positive number", 400, "validation");
+				}
+
+				return Promise.resolve({ entries: storage.getBookingLog(auth.username, limit) });
+			},
+			requiresAuth: true,
+		},
+		{
+			method: "POST",
+			path: "/bus/autobook/run",
+			handler: async (_body, _query, headers) => {
+				try {
+					const auth = authenticateRequest(headers || {});
+					if (!auth) {
+						throw new ApiError("Authentication required. Please login first", 401, "auth");
+					}
+
+					await ensureValidSession(auth.username);
+
+					const storedSession = storage.getSession(auth.username);
+					const rules = storage.getBookingRules(auth.username).filter((rule) => rule.enabled);
+
+					return await runBookingRules(busApi, auth.username, storedSession?.cookies || "", rules);
+				} catch (error) {
+					handleApiError(error);
+				}
+			},
+			requiresAuth: true,
+		},
+		{
+			method: "GET",
+			path: "/bus/confirmation/settings",
+			handler: (_body, _query, headers) => {
+				const auth = authenticateRequest(headers || {});
+				if (!auth) {
+					throw new ApiError("Authentication required. Please login first", 401, "auth");
+				}
+
+				return Promise.resolve({ settings: storage.getConfirmationSettings(auth.username) ?? null });
+			},
+			requiresAuth: true,
+		},
+		{
+			method: "POST",
+			path: "/bus/confirmation/settings",
+			handler: async (body, _query, headers) => {
+				const auth = authenticateRequest(headers || {});
+				if (!auth) {
+					throw new ApiError("Authentication required. Please login first", 401, "auth");
+				}
+
+				const settings = await parseConfirmationSettingsBody(body, auth.username);
+				storage.setConfirmationSettings(settings);
+				return { success: true, settings };
+			},
+			requiresAuth: true,
+		},
 		{
 			method: "POST",
 			path: "/reg/login",
@@ -595,7 +1051,17 @@ export function createRoutes(busApi: BusApi, regApi: RegApi, _busApiFactory?: ()
 						throw new ApiError("Username and password are required", 400, "validation");
 					}
 					await regApi.login({ username, password });
-					return { success: true, message: "Logged in successfully" };
+					const token = generateToken(username);
+					const sessionData = regApi.getSessionManager().getSessionData();
+
+					storage.setSession(regSessionKey(username), {
+						cookies: sessionData?.cookies || "",
+						username,
+						lastValidated: Date.now(),
+						loginTime: Date.now(),
+					});
+
+					return { success: true, message: "Logged in successfully", token };
 				} catch (error) {
 					handleApiError(error);
 				}
@@ -606,12 +1072,7 @@ export function createRoutes(busApi: BusApi, regApi: RegApi, _busApiFactory?: ()
 			path: "/reg/student",
 			handler: async (_body, _query, headers) => {
 				try {
-					const auth = authenticateRequest(headers || {});
-					if (!auth) {
-						throw new ApiError("Authentication required. Please login first", 401, "auth");
-					}
-
-					return await regApi.getStudentInfo();
+					return await withRegSession(headers, () => regApi.getStudentInfo());
 				} catch (error) {
 					handleApiError(error);
 				}
@@ -621,14 +1082,122 @@ export function createRoutes(busApi: BusApi, regApi: RegApi, _busApiFactory?: ()
 		{
 			method: "GET",
 			path: "/reg/timetable",
+			handler: async (_body, query, headers) => {
+				try {
+					const { academicYear, semester } = parseTermQuery(query);
+					return await withRegSession(headers, () => regApi.getTimeTable(academicYear, semester));
+				} catch (error) {
+					handleApiError(error);
+				}
+			},
+			requiresAuth: true,
+		},
+		{
+			method: "GET",
+			path: "/reg/timetable/terms",
 			handler: async (_body, _query, headers) => {
 				try {
-					const auth = authenticateRequest(headers || {});
-					if (!auth) {
-						throw new ApiError("Authentication required. Please login first", 401, "auth");
+					return await withRegSession(headers, () => regApi.getTimeTableTerms());
+				} catch (error) {
+					handleApiError(error);
+				}
+			},
+			requiresAuth: true,
+		},
+		{
+			method: "GET",
+			path: "/reg/exams",
+			handler: async (_body, query, headers) => {
+				try {
+					const { academicYear, semester } = parseTermQuery(query);
+					return await withRegSession(headers, () => regApi.getExamSchedule(academicYear, semester));
+				} catch (error) {
+					handleApiError(error);
+				}
+			},
+			requiresAuth: true,
+		},
+		{
+			method: "GET",
+			path: "/reg/grades",
+			handler: async (_body, _query, headers) => {
+				try {
+					return await withRegSession(headers, () => regApi.getCompleteGrades());
+				} catch (error) {
+					handleApiError(error);
+				}
+			},
+			requiresAuth: true,
+		},
+		{
+			method: "POST",
+			path: "/reg/grades/simulate",
+			handler: async (body, _query, headers) => {
+				try {
+					const { grades, academicYear, semester, repeatPolicy } = (body || {}) as {
+						grades?: HypotheticalGrade[];
+						academicYear?: string;
+						semester?: string;
+						repeatPolicy?: RepeatPolicy;
+					};
+
+					if (!Array.isArray(grades) || grades.length === 0) {
+						throw new ApiError("grades must be a non-empty array of { courseCode, grade, credits? }", 400, "validation");
+					}
+
+					for (const entry of grades) {
+						if (!entry?.courseCode || typeof entry.grade !== "string" || !VALID_GRADES.includes(entry.grade.trim().toUpperCase())) {
+							throw new ApiError(`Each grade needs a courseCode and one of: ${VALID_GRADES.join(", ")}`, 400, "validation");
+						}
+
+						if (entry.credits !== undefined && (typeof entry.credits !== "number" || entry.credits < 0)) {
+							throw new ApiError("credits must be a non-negative number", 400, "validation");
+						}
+					}
+
+					if (repeatPolicy !== undefined && !["all", "latest", "best"].includes(repeatPolicy)) {
+						throw new ApiError("repeatPolicy must be 'all', 'latest' or 'best'", 400, "validation");
 					}
 
-					return await regApi.getTimeTable();
+					const gradeData = await withRegSession(headers, () => regApi.getCompleteGrades());
+					return simulateGpa(gradeData, grades, { academicYear, semester, repeatPolicy });
+				} catch (error) {
+					handleApiError(error);
+				}
+			},
+			requiresAuth: true,
+		},
+		{
+			method: "GET",
+			path: "/reg/activity",
+			handler: async (_body, _query, headers) => {
+				try {
+					return await withRegSession(headers, () => regApi.getCompleteActivity());
+				} catch (error) {
+					handleApiError(error);
+				}
+			},
+			requiresAuth: true,
+		},
+		{
+			method: "GET",
+			path: "/reg/activity/progress",
+			handler: async (_body, query, headers) => {
+				try {
+					const options = parseActivityRequirementQuery(query);
+					return await withRegSession(headers, () => regApi.getActivityProgress(options));
+				} catch (error) {
+					handleApiError(error);
+				}
+			},
+			requiresAuth: true,
+		},
+		{
+			method: "GET",
+			path: "/reg/studyplan",
+			handler: async (_body, _query, headers) => {
+				try {
+					return await withRegSession(headers, () => regApi.getCompleteStudyPlan());
 				} catch (error) {
 					handleApiError(error);
 				}
@@ -645,8 +1214,12 @@ export function printEndpoints(baseURL: string) {
 	console.log("  Bus API:");
 	console.log(`    POST   ${baseURL}/bus/login`);
 	console.log(`    POST   ${baseURL}/bus/login-with`);
-	console.log(`    GET    ${baseURL}/bus/available`);
+	console.log(`    GET    ${baseURL}/bus/available?month={value}`);
+	console.log(`    GET    ${baseURL}/bus/available?from={YYYY-MM-DD}&to={YYYY-MM-DD}`);
+	console.log(`    GET    ${baseURL}/bus/stops`);
 	console.log(`    GET    ${baseURL}/bus/schedule?page={number}&perPage={number}`);
+	console.log(`    GET    ${baseURL}/bus/schedule?all=true&from=&to=&destination=&status=&traveled=`);
+	console.log(`    GET    ${baseURL}/bus/stats?from=&to=&destination=`);
 	console.log(`    POST   ${baseURL}/bus/confirm`);
 	console.log(`    POST   ${baseURL}/bus/unconfirm`);
 	console.log(`    POST   ${baseURL}/bus/delete`);
@@ -655,9 +1228,25 @@ export function printEndpoints(baseURL: string) {
 	console.log(`    GET    ${baseURL}/bus/validate`);
 	console.log(`    GET    ${baseURL}/bus/ticket/qrcode?ticketId={number}`);
 	console.log(`    GET    ${baseURL}/bus/ticket/info?ticketId={number}`);
+	console.log(`    GET    ${baseURL}/bus/ticket/bundle?ticketId={number}`);
+	console.log(`    GET    ${baseURL}/bus/tickets?today={true|false}`);
+	console.log(`    GET    ${baseURL}/bus/autobook/rules`);
+	console.log(`    POST   ${baseURL}/bus/autobook/rules`);
+	console.log(`    POST   ${baseURL}/bus/autobook/rules/delete`);
+	console.log(`    GET    ${baseURL}/bus/autobook/history?limit={number}`);
+	console.log(`    POST   ${baseURL}/bus/autobook/run`);
+	console.log(`    GET    ${baseURL}/bus/confirmation/settings`);
+	console.log(`    POST   ${baseURL}/bus/confirmation/settings`);
 	console.log("  Reg API:");
 	console.log(`    POST   ${baseURL}/reg/login`);
 	console.log(`    GET    ${baseURL}/reg/student`);
-	console.log(`    GET    ${baseURL}/reg/timetable`);
+	console.log(`    GET    ${baseURL}/reg/timetable?academicYear={year}&semester={number}`);
+	console.log(`    GET    ${baseURL}/reg/timetable/terms`);
+	console.log(`    GET    ${baseURL}/reg/exams?academicYear={year}&semester={number}`);
+	console.log(`    GET    ${baseURL}/reg/grades`);
+	console.log(`    POST   ${baseURL}/reg/grades/simulate`);
+	console.log(`    GET    ${baseURL}/reg/activity`);
+	console.log(`    GET    ${baseURL}/reg/activity/progress`);
+	console.log(`    GET    ${baseURL}/reg/studyplan`);
 	console.log(`\n`);
 }
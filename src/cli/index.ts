@@ -22,6 +22,8 @@ if (command === "serve" && !args.includes("--help") && !args.includes("-h")) {
 	console.log("\nOptions:");
 	console.log("     PORT=3000                            Set server port (default: 3000)");
 	console.log("     HOST=0.0.0.0                         Set server host (default: localhost)");
+	console.log("     BUS_SERVER=http://localhost:4000     Override bus system origin");
+	console.log("     REG_SERVER=http://localhost:4000     Override registrar system origin");
 
 	process.exit(command && command !== "--help" && command !== "-h" ? 1 : 0);
 }
@@ -4,7 +4,10 @@ import { readFileSync } from "node:fs";
 import { join, dirname } from "node:path";
 import { fileURLToPath } from "node:url";
 import { ApiClient, ApiServer } from "../api";
-import { API_ENDPOINTS, printEndpoints, createRoutes, ApiError } from "./endpoints";
+import { API_ENDPOINTS, printEndpoints, createRoutes, ApiError, authenticateRequest, extractBearerToken } from "./endpoints";
+import { ApiInstancePool } from "./api-pool";
+import { BusBookingScheduler } from "./bus-scheduler";
+import { ConfirmationService } from "./confirmation-service";
 import { logger, generateRequestId, PerformanceMonitor } from "./logger";
 
 const __filename = fileURLToPath(import.meta.url);
@@ -14,6 +17,8 @@ const VERSION = packageJson.version;
 
 const PORT = process.env.PORT || 3000;
 const HOST = process.env.HOST || "localhost";
+const BUS_SERVER = process.env.BUS_SERVER || undefined;
+const REG_SERVER = process.env.REG_SERVER || undefined;
 
 let encryptionPin = "default";
 
@@ -29,32 +34,40 @@ if (pinArgIndex !== -1 && pinArgIndex + 1 < process.argv.length) {
 	logger.info("Using default encryption PIN");
 }
 
-function createApiClients(_requestId: string) {
-	(globalThis as { encryptionPin?: string }).encryptionPin = encryptionPin;
-	const busClient = new ApiClient(ApiServer.BUS);
-	const regClient = new ApiClient(ApiServer.REG);
-	const busApi = busClient.api();
-	const regApi = regClient.api();
-
-	return {
-		busApi,
-		regApi,
-		cleanup: () => {
-			if (busApi && "getSessionManager" in busApi && typeof busApi.getSessionManager === "function") {
-				const sessionManager = busApi.getSessionManager();
-				sessionManager.clearSession();
-			}
+(globalThis as { encryptionPin?: string }).encryptionPin = encryptionPin;
 
-			if (regApi && "getSessionManager" in regApi && typeof regApi.getSessionManager === "function") {
-				const sessionManager = regApi.getSessionManager();
-				sessionManager.clearSession();
-			}
-		},
-	};
+const apiPool = new ApiInstancePool({
+	busServer: BUS_SERVER,
+	regServer: REG_SERVER,
+	idleTimeout: process.env.API_POOL_IDLE_TIMEOUT ? Number(process.env.API_POOL_IDLE_TIMEOUT) : undefined,
+});
+apiPool.start();
+
+const bookingScheduler = new BusBookingScheduler({
+	busServer: BUS_SERVER,
+	pollInterval: process.env.AUTO_BOOK_INTERVAL ? Number(process.env.AUTO_BOOK_INTERVAL) : undefined,
+});
+
+if (process.env.AUTO_BOOK_DISABLED !== "true") {
+	bookingScheduler.start();
 }
 
-const tempBusClient = new ApiClient(ApiServer.BUS);
-const tempRegClient = new ApiClient(ApiServer.REG);
+const confirmationService = new ConfirmationService({
+	busServer: BUS_SERVER,
+	pollInterval: process.env.CONFIRMATION_WATCH_INTERVAL ? Number(process.env.CONFIRMATION_WATCH_INTERVAL) : undefined,
+});
+
+if (process.env.CONFIRMATION_WATCH_DISABLED !== "true") {
+	confirmationService.start();
+}
+
+function acquireApis(headers: Record<string, string>) {
+	const token = authenticateRequest(headers) ? extractBearerToken(headers) : null;
+	return apiPool.acquire(token);
+}
+
+const tempBusClient = new ApiClient(ApiServer.BUS, { server: BUS_SERVER });
+const tempRegClient = new ApiClient(ApiServer.REG, { server: REG_SERVER });
 const tempBusApi = tempBusClient.api();
 const tempRegApi = tempRegClient.api();
 
@@ -131,7 +144,12 @@ if (isBun) {
 				const route = routes.find((r) => r.path === pathname && r.method === req.method);
 
 				if (route) {
-					const { busApi, regApi, cleanup } = createApiClients(requestId);
+					const headersObj: Record<string, string> = {};
+					req.headers.forEach((value, key) => {
+						headersObj[key] = value;
+					});
+
+					const { busApi, regApi, release } = acquireApis(headersObj);
 
 					try {
 						const isolatedRoutes = createRoutes(busApi, regApi);
@@ -141,11 +159,6 @@ if (isBun) {
 							statusCode = 404;
 							response = errorResponse("Endpoint not found", 404);
 						} else {
-							const headersObj: Record<string, string> = {};
-							req.headers.forEach((value, key) => {
-								headersObj[key] = value;
-							});
-
 							if (req.method === "POST") {
 								try {
 									const body = await req.json();
@@ -183,7 +196,7 @@ if (isBun) {
 							}
 						}
 					} finally {
-						cleanup();
+						release();
 					}
 				} else {
 					statusCode = 404;
@@ -223,6 +236,9 @@ if (isBun) {
 		isShuttingDown = true;
 
 		console.log("\n👋 Shutting down server...");
+		apiPool.stop();
+		bookingScheduler.stop();
+		confirmationService.stop();
 		void server.stop();
 		console.log("✅ Server closed");
 		process.exit(0);
@@ -294,7 +310,8 @@ if (isBun) {
 
 			const route = routes.find((r) => r.path === pathname && r.method === req.method);
 			if (route) {
-				const { busApi, regApi, cleanup } = createApiClients(requestId);
+				const headersObj: Record<string, string> = req.headers as Record<string, string>;
+				const { busApi, regApi, release } = acquireApis(headersObj);
 
 				try {
 					const isolatedRoutes = createRoutes(busApi, regApi);
@@ -303,11 +320,10 @@ if (isBun) {
 					if (!isolatedRoute) {
 						statusCode = 404;
 						sendError(res, "Endpoint not found", 404);
+						release();
 						return;
 					}
 
-					const headersObj: Record<string, string> = req.headers as Record<string, string>;
-
 					if (req.method === "POST") {
 						let body = "";
 						req.on("data", (chunk) => {
@@ -333,7 +349,7 @@ if (isBun) {
 									const responseTime = performance.now() - startTime;
 									logger.request(req.method || "UNKNOWN", pathname, statusCode, responseTime, { requestId });
 									PerformanceMonitor.recordRequest(pathname, responseTime, statusCode);
-									cleanup();
+									release();
 								}
 							})();
 						});
@@ -360,11 +376,11 @@ if (isBun) {
 							const responseTime = performance.now() - startTime;
 							logger.request(req.method || "UNKNOWN", pathname, statusCode, responseTime, { requestId });
 							PerformanceMonitor.recordRequest(pathname, responseTime, statusCode);
-							cleanup();
+							release();
 						}
 					}
 				} catch (error) {
-					cleanup();
+					release();
 					throw error;
 				}
 				return;
@@ -408,6 +424,9 @@ if (isBun) {
 		isShuttingDown = true;
 
 		console.log("\n👋 Shutting down server...");
+		apiPool.stop();
+		bookingScheduler.stop();
+		confirmationService.stop();
 		server.close(() => {
 			console.log("✅ Server closed");
 			process.exit(0);
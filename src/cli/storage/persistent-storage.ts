@@ -1,9 +1,15 @@
 import { readFileSync, writeFileSync, existsSync, mkdirSync } from "node:fs";
 import { join } from "node:path";
+import type { BusDestinationType } from "../../api/bus/parser/stops";
 
 const STORAGE_DIR = join(process.cwd(), "CMRU_API_STORAGE");
 const TOKEN_STORAGE_FILE = join(STORAGE_DIR, "tokens.json");
 const SESSION_STORAGE_FILE = join(STORAGE_DIR, "sessions.json");
+const BOOKING_RULE_STORAGE_FILE = join(STORAGE_DIR, "booking-rules.json");
+const BOOKING_LOG_STORAGE_FILE = join(STORAGE_DIR, "booking-log.json");
+const BOOKING_ATTEMPT_STORAGE_FILE = join(STORAGE_DIR, "booking-attempts.json");
+const CONFIRMATION_SETTINGS_STORAGE_FILE = join(STORAGE_DIR, "confirmation-settings.json");
+const MAX_BOOKING_LOG_ENTRIES = 1000;
 
 interface TokenData {
 	username: string;
@@ -17,12 +23,66 @@ interface SessionData {
 	lastValidated: number;
 	loginTime: number;
 	oneClick?: boolean;
+	/** เวลาที่ตัวจองอัตโนมัติพบว่า session หมดอายุ (ค่าจะหายไปเมื่อ login ใหม่) */
+	expiredAt?: number;
+}
+
+export interface BookingRule {
+	id: string;
+	username: string;
+	/** วันในสัปดาห์ที่ต้องการจอง (0 = อาทิตย์ ... 6 = เสาร์) */
+	weekday: number;
+	destinationType: BusDestinationType;
+	/** ช่วงเวลาออกรถที่ยอมรับ รูปแบบ `HH:mm` */
+	earliestTime: string;
+	latestTime: string;
+	/** ยืนยันการจองทันทีหลังจองสำเร็จ */
+	oneClick: boolean;
+	enabled: boolean;
+	createdAt: number;
+}
+
+export interface BookingLogEntry {
+	ruleId: string;
+	username: string;
+	scheduleId?: number;
+	scheduleDate?: string;
+	departureTime?: string;
+	destinationType?: BusDestinationType;
+	status: "booked" | "confirmed" | "failed" | "session_expired";
+	message?: string;
+	timestamp: number;
+}
+
+/** จำนวนครั้งที่จองรอบรถหนึ่งรอบไม่สำเร็จ ใช้หน่วงเวลาก่อนลองใหม่ และไม่ถูกตัดทิ้งเหมือน booking log */
+export interface BookingAttempt {
+	username: string;
+	scheduleId: number;
+	scheduleDate: string;
+	failures: number;
+	lastFailureAt: number;
+	lastMessage?: string;
+}
+
+export interface ConfirmationSettings {
+	username: string;
+	enabled: boolean;
+	/** ยืนยันการจองให้อัตโนมัติเมื่อเข้าช่วงยืนยัน */
+	autoConfirm: boolean;
+	/** URL ที่จะได้รับ POST เมื่อเกิดเหตุการณ์การยืนยัน */
+	webhookUrl?: string;
+	reminderMinutes?: number;
+	updatedAt: number;
 }
 
 export class PersistentStorage {
 	private static instance: PersistentStorage;
 	private tokenMap = new Map<string, TokenData>();
 	private sessionMap = new Map<string, SessionData>();
+	private bookingRuleMap = new Map<string, BookingRule>();
+	private bookingLog: BookingLogEntry[] = [];
+	private bookingAttemptMap = new Map<string, BookingAttempt>();
+	private confirmationSettingsMap = new Map<string, ConfirmationSettings>();
 
 	private constructor() {
 		this.ensureStorageDir();
@@ -65,6 +125,31 @@ export class PersistentStorage {
 				}
 			}
 
+			if (existsSync(BOOKING_RULE_STORAGE_FILE)) {
+				const ruleData = JSON.parse(readFileSync(BOOKING_RULE_STORAGE_FILE, "utf-8"));
+				for (const [key, value] of Object.entries(ruleData)) {
+					this.bookingRuleMap.set(key, value as BookingRule);
+				}
+			}
+
+			if (existsSync(BOOKING_LOG_STORAGE_FILE)) {
+				this.bookingLog = JSON.parse(readFileSync(BOOKING_LOG_STORAGE_FILE, "utf-8")) as BookingLogEntry[];
+			}
+
+			if (existsSync(BOOKING_ATTEMPT_STORAGE_FILE)) {
+				const attemptData = JSON.parse(readFileSync(BOOKING_ATTEMPT_STORAGE_FILE, "utf-8"));
+				for (const [key, value] of Object.entries(attemptData)) {
+					this.bookingAttemptMap.set(key, value as BookingAttempt);
+				}
+			}
+
+			if (existsSync(CONFIRMATION_SETTINGS_STORAGE_FILE)) {
+				const settingsData = JSON.parse(readFileSync(CONFIRMATION_SETTINGS_STORAGE_FILE, "utf-8"));
+				for (const [key, value] of Object.entries(settingsData)) {
+					this.confirmationSettingsMap.set(key, value as ConfirmationSettings);
+				}
+			}
+
 			console.log(`Loaded ${this.tokenMap.size} tokens and ${this.sessionMap.size} sessions from disk`);
 		} catch (error) {
 			console.warn("Failed to load storage from disk:", error);
@@ -83,6 +168,24 @@ export class PersistentStorage {
 		}
 	}
 
+	private saveBookingsToDisk(): void {
+		try {
+			writeFileSync(BOOKING_RULE_STORAGE_FILE, JSON.stringify(Object.fromEntries(this.bookingRuleMap), null, 2));
+			writeFileSync(BOOKING_LOG_STORAGE_FILE, JSON.stringify(this.bookingLog, null, 2));
+			writeFileSync(BOOKING_ATTEMPT_STORAGE_FILE, JSON.stringify(Object.fromEntries(this.bookingAttemptMap), null, 2));
+		} catch (error) {
+			console.error("Failed to save booking data to disk:", error);
+		}
+	}
+
+	private saveConfirmationSettingsToDisk(): void {
+		try {
+			writeFileSync(CONFIRMATION_SETTINGS_STORAGE_FILE, JSON.stringify(Object.fromEntries(this.confirmationSettingsMap), null, 2));
+		} catch (error) {
+			console.error("Failed to save confirmation settings to disk:", error);
+		}
+	}
+
 	public setToken(token: string, data: TokenData): void {
 		this.tokenMap.set(token, data);
 		this.saveToDisk();
@@ -146,6 +249,95 @@ export class PersistentStorage {
 		return new Map(this.sessionMap);
 	}
 
+	public setBookingRule(rule: BookingRule): void {
+		this.bookingRuleMap.set(rule.id, rule);
+		this.saveBookingsToDisk();
+	}
+
+	public getBookingRule(id: string): BookingRule | undefined {
+		return this.bookingRuleMap.get(id);
+	}
+
+	public deleteBookingRule(id: string): boolean {
+		const deleted = this.bookingRuleMap.delete(id);
+		if (deleted) {
+			this.saveBookingsToDisk();
+		}
+		return deleted;
+	}
+
+	public getBookingRules(username?: string): BookingRule[] {
+		const rules = [...this.bookingRuleMap.values()];
+		return username ? rules.filter((rule) => rule.username === username) : rules;
+	}
+
+	public addBookingLog(entry: BookingLogEntry): void {
+		this.bookingLog.push(entry);
+		if (this.bookingLog.length > MAX_BOOKING_LOG_ENTRIES) {
+			this.bookingLog.splice(0, this.bookingLog.length - MAX_BOOKING_LOG_ENTRIES);
+		}
+		this.saveBookingsToDisk();
+	}
+
+	public getBookingLog(username?: string, limit: number = 50): BookingLogEntry[] {
+		const entries = username ? this.bookingLog.filter((entry) => entry.username === username) : this.bookingLog;
+		return entries.slice(-limit).reverse();
+	}
+
+	public getBookingAttempt(username: string, scheduleId: number, scheduleDate: string): BookingAttempt | undefined {
+		return this.bookingAttemptMap.get(`${username}:${scheduleId}:${scheduleDate}`);
+	}
+
+	public recordBookingFailure(username: string, scheduleId: number, scheduleDate: string, message?: string): BookingAttempt {
+		const key = `${username}:${scheduleId}:${scheduleDate}`;
+		const attempt: BookingAttempt = {
+			username,
+			scheduleId,
+			scheduleDate,
+			failures: (this.bookingAttemptMap.get(key)?.failures ?? 0) + 1,
+			lastFailureAt: Date.now(),
+			lastMessage: message,
+		};
+
+		this.bookingAttemptMap.set(key, attempt);
+		this.saveBookingsToDisk();
+		return attempt;
+	}
+
+	public clearBookingAttempt(username: string, scheduleId: number, scheduleDate: string): void {
+		if (this.bookingAttemptMap.delete(`${username}:${scheduleId}:${scheduleDate}`)) {
+			this.saveBookingsToDisk();
+		}
+	}
+
+	/** ลบประวัติการจองไม่สำเร็จของรอบที่วันเดินทางผ่านไปแล้ว (`before` รูปแบบ `YYYY-MM-DD`) */
+	public cleanupBookingAttempts(before: string): number {
+		let cleanedCount = 0;
+		for (const [key, attempt] of this.bookingAttemptMap) {
+			if (attempt.scheduleDate < before) {
+				this.bookingAttemptMap.delete(key);
+				cleanedCount++;
+			}
+		}
+		if (cleanedCount > 0) {
+			this.saveBookingsToDisk();
+		}
+		return cleanedCount;
+	}
+
+	public setConfirmationSettings(settings: ConfirmationSettings): void {
+		this.confirmationSettingsMap.set(settings.username, settings);
+		this.saveConfirmationSettingsToDisk();
+	}
+
+	public getConfirmationSettings(username: string): ConfirmationSettings | undefined {
+		return this.confirmationSettingsMap.get(username);
+	}
+
+	public getAllConfirmationSettings(): ConfirmationSettings[] {
+		return [...this.confirmationSettingsMap.values()];
+	}
+
 	public cleanupExpiredTokens(): number {
 		const now = Date.now();
 		let cleanedCount = 0;
@@ -178,10 +370,11 @@ export class PersistentStorage {
 		return cleanedCount;
 	}
 
-	public getStats(): { tokens: number; sessions: number; storageDir: string } {
+	public getStats(): { tokens: number; sessions: number; bookingRules: number; storageDir: string } {
 		return {
 			tokens: this.tokenMap.size,
 			sessions: this.sessionMap.size,
+			bookingRules: this.bookingRuleMap.size,
 			storageDir: STORAGE_DIR,
 		};
 	}
@@ -0,0 +1,104 @@
+import { lookup } from "node:dns/promises";
+import { BlockList, isIP } from "node:net";
+
+export interface ResolvedWebhookTarget {
+	url: URL;
+	address: string;
+	family: 4 | 6;
+}
+
+export class UnsafeWebhookUrlError extends Error {
+	constructor(message: string) {
+		super(message);
+		this.name = "UnsafeWebhookUrlError";
+	}
+}
+
+const BLOCKED_SUBNETS: Array<[string, number, "ipv4" | "ipv6"]> = [
+	["0.0.0.0", 8, "ipv4"],
+	["10.0.0.0", 8, "ipv4"],
+	["100.64.0.0", 10, "ipv4"],
+	["127.0.0.0", 8, "ipv4"],
+	["169.254.0.0", 16, "ipv4"],
+	["172.16.0.0", 12, "ipv4"],
+	["192.0.0.0", 24, "ipv4"],
+	["192.168.0.0", 16, "ipv4"],
+	["198.18.0.0", 15, "ipv4"],
+	["224.0.0.0", 4, "ipv4"],
+	["240.0.0.0", 4, "ipv4"],
+	["::", 128, "ipv6"],
+	["::1", 128, "ipv6"],
+	["64:ff9b::", 96, "ipv6"],
+	["fc00::", 7, "ipv6"],
+	["fe80::", 10, "ipv6"],
+	["ff00::", 8, "ipv6"],
+];
+
+const blockedAddresses = new BlockList();
+for (const [network, prefix, type] of BLOCKED_SUBNETS) {
+	blockedAddresses.addSubnet(network, prefix, type);
+}
+
+/**
+ * loopback, link-local, private, unique-local และ multicast ถือว่าไม่ปลอดภัยสำหรับ webhook
+ * (IPv4-mapped IPv6 เช่น `::ffff:127.0.0.1` ตรวจตาม IPv4 ที่อยู่ข้างใน)
+ */
+export function isBlockedAddress(address: string): boolean {
+	const mapped = address.match(/^::ffff:(\d{1,3}(?:\.\d{1,3}){3})$/i)?.[1];
+	if (mapped) {
+		return blockedAddresses.check(mapped, "ipv4");
+	}
+
+	const mappedHex = address.match(/^::ffff:([0-9a-f]{1,4}):([0-9a-f]{1,4})$/i);
+	if (mappedHex?.[1] && mappedHex[2]) {
+		const high = parseInt(mappedHex[1], 16);
+		const low = parseInt(mappedHex[2], 16);
+		return blockedAddresses.check(`${high >> 8}.${high & 255}.${low >> 8}.${low & 255}`, "ipv4");
+	}
+
+	const family = isIP(address);
+	if (family === 0) return true;
+
+	return blockedAddresses.check(address, family === 4 ? "ipv4" : "ipv6");
+}
+
+/**
+ * ตรวจ URL ของ webhook และ resolve host ทุก address ต้องเป็น address สาธารณะ มิฉะนั้นโยน `UnsafeWebhookUrlError`
+ * ผู้เรียกควรส่ง request ไปยัง `address` ที่คืนมาเท่านั้น เพื่อไม่ให้ DNS เปลี่ยนปลายทางระหว่างตรวจกับส่ง
+ */
+export async function resolveWebhookUrl(webhookUrl: string): Promise<ResolvedWebhookTarget> {
+	let url: URL;
+	try {
+		url = new URL(webhookUrl);
+	} catch {
+		throw new UnsafeWebhookUrlError("webhookUrl must be a valid URL");
+	}
+
+	if (url.protocol !== "http:" && url.protocol !== "https:") {
+		throw new UnsafeWebhookUrlError("webhookUrl must use http or https");
+	}
+
+	const hostname = url.hostname.replace(/^\[|\]$/g, "");
+	let addresses: Array<{ address: string; family: number }>;
+
+	if (isIP(hostname)) {
+		addresses = [{ address: hostname, family: isIP(hostname) }];
+	} else {
+		try {
+			addresses = await lookup(hostname, { all: true, verbatim: true });
+		} catch {
+			throw new UnsafeWebhookUrlError(`webhookUrl host ${hostname} could not be resolved`);
+		}
+	}
+
+	const [first] = addresses;
+	if (!first) {
+		throw new UnsafeWebhookUrlError(`webhookUrl host ${hostname} could not be resolved`);
+	}
+
+	if (addresses.some(({ address }) => isBlockedAddress(address))) {
+		throw new UnsafeWebhookUrlError("webhookUrl must not point to a loopback, link-local or private network address");
+	}
+
+	return { url, address: first.address, family: first.family === 6 ? 6 : 4 };
+}